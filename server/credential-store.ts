@@ -0,0 +1,42 @@
+import { promises as fs } from "fs";
+
+export interface StoredCredential {
+  /** WebAuthn credential id, base64url */
+  readonly id: string;
+  readonly userId: string;
+  readonly username: string;
+  /** Base64 SPKI DER, the format `toWebAuthnKey` imports */
+  readonly publicKey: string;
+  readonly createdAt: number;
+}
+
+export interface CredentialStore {
+  readonly get: (id: string) => Promise<StoredCredential | undefined>;
+  readonly save: (credential: StoredCredential) => Promise<void>;
+}
+
+/**
+ * Keeps credentials in a JSON file so registered passkeys survive restarts
+ */
+export function createCredentialStore(filePath: string): CredentialStore {
+  let credentials: Record<string, StoredCredential> | undefined;
+
+  async function load(): Promise<Record<string, StoredCredential>> {
+    if (credentials) return credentials;
+    try {
+      credentials = JSON.parse(await fs.readFile(filePath, "utf8")) as Record<string, StoredCredential>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      credentials = {};
+    }
+    return credentials;
+  }
+
+  return {
+    get: async (id) => (await load())[id],
+    async save(credential) {
+      credentials = { ...(await load()), [credential.id]: credential };
+      await fs.writeFile(filePath, JSON.stringify(credentials, null, 2));
+    },
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Self-hostable stand-in for ZeroDev's passkey server, speaking the same API as `toWebAuthnKey`:
+ * POST /register/options, /register/verify, /login/options and /login/verify.
+ *
+ * Point the app at it with VITE_PASSKEY_SERVER_URL. Attestation is not requested ("none"), so
+ * registration trusts the public key the browser reports; logins are verified against it.
+ */
+import { createServer } from "http";
+import type { IncomingMessage, ServerResponse } from "http";
+import { randomBytes } from "crypto";
+import { createCredentialStore } from "./credential-store.ts";
+import {
+  ES256,
+  WebAuthnVerificationError,
+  createChallenge,
+  fromBase64Url,
+  parseClientData,
+  toBase64Url,
+  toSpkiPublicKey,
+  verifyAssertionSignature,
+  verifyAuthenticatorData,
+} from "./webauthn.ts";
+
+const PORT = Number(process.env.PASSKEY_SERVER_PORT ?? 8787);
+const RP_ID = process.env.PASSKEY_SERVER_RP_ID ?? "localhost";
+const RP_NAME = process.env.PASSKEY_SERVER_RP_NAME ?? "Passkeys App";
+const ORIGINS = (process.env.PASSKEY_SERVER_ORIGINS ?? "http://localhost:5173").split(",");
+/** When set, requests must carry it in the `x-api-key` header (see `passkeyServerHeaders`) */
+const API_KEY = process.env.PASSKEY_SERVER_API_KEY;
+const DB_PATH = process.env.PASSKEY_SERVER_DB ?? ".passkey-server.json";
+
+const CEREMONY_TIMEOUT_MS = 60_000;
+const MAX_BODY_BYTES = 64 * 1024;
+
+interface PendingCeremony {
+  readonly challenge: string;
+  readonly rpID: string;
+  readonly expiresAt: number;
+}
+
+interface RegistrationCredential {
+  readonly id: string;
+  readonly response: {
+    readonly clientDataJSON: string;
+    readonly authenticatorData?: string;
+    readonly publicKey?: string;
+    readonly publicKeyAlgorithm: number;
+  };
+}
+
+interface AuthenticationCredential {
+  readonly id: string;
+  readonly response: {
+    readonly clientDataJSON: string;
+    readonly authenticatorData: string;
+    readonly signature: string;
+  };
+}
+
+// Parameter properties are avoided so Node can run this file by stripping types
+class HttpError extends Error {
+  override name = "HttpError";
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const store = createCredentialStore(DB_PATH);
+const pendingRegistrations = new Map<string, PendingCeremony & { readonly username: string }>();
+const pendingLogins = new Map<string, PendingCeremony>();
+
+/**
+ * Drops ceremonies that expired without being answered; answered ones are removed by `takePending`
+ */
+function pruneExpired(pending: Map<string, PendingCeremony>): void {
+  const now = Date.now();
+  for (const [key, ceremony] of pending) {
+    if (ceremony.expiresAt < now) pending.delete(key);
+  }
+}
+
+function takePending<T extends PendingCeremony>(pending: Map<string, T>, key: string): T {
+  const ceremony = pending.get(key);
+  pending.delete(key);
+  if (!ceremony || ceremony.expiresAt < Date.now()) throw new HttpError(400, "Unknown or expired challenge");
+  return ceremony;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+/**
+ * Checks that `body.cred` is a credential whose response carries the given base64url fields
+ */
+function requireCredential(body: Record<string, unknown>, fields: readonly string[]): void {
+  const { cred } = body;
+  if (!isRecord(cred) || typeof cred.id !== "string" || !isRecord(cred.response)) {
+    throw new HttpError(400, "Missing or malformed cred");
+  }
+  const response = cred.response;
+  const missing = fields.filter((field) => typeof response[field] !== "string");
+  if (missing.length > 0) throw new HttpError(400, `cred.response is missing ${missing.join(", ")}`);
+}
+
+const routes: Record<string, (body: Record<string, unknown>) => Promise<unknown>> = {
+  async "/register/options"(body) {
+    const username = typeof body.username === "string" && body.username ? body.username : "Passkey";
+    const rpID = typeof body.rpID === "string" && body.rpID ? body.rpID : RP_ID;
+    const userId = toBase64Url(randomBytes(16));
+    const challenge = createChallenge();
+    pruneExpired(pendingRegistrations);
+    pendingRegistrations.set(userId, { challenge, rpID, username, expiresAt: Date.now() + CEREMONY_TIMEOUT_MS });
+
+    return {
+      userId,
+      options: {
+        challenge,
+        rp: { id: rpID, name: RP_NAME },
+        user: { id: userId, name: username, displayName: username },
+        pubKeyCredParams: [{ type: "public-key", alg: ES256 }],
+        timeout: CEREMONY_TIMEOUT_MS,
+        attestation: "none",
+        authenticatorSelection: { residentKey: "required", userVerification: "required" },
+      },
+    };
+  },
+
+  async "/register/verify"(body) {
+    if (typeof body.userId !== "string" || !body.userId) throw new HttpError(400, "Missing userId");
+    requireCredential(body, ["clientDataJSON"]);
+    const { userId, cred } = body as { userId: string; cred: RegistrationCredential };
+    const pending = takePending(pendingRegistrations, userId);
+
+    const { challenge } = parseClientData(cred.response.clientDataJSON, "webauthn.create", ORIGINS);
+    if (challenge !== pending.challenge) throw new WebAuthnVerificationError("Challenge mismatch");
+    if (cred.response.authenticatorData) {
+      verifyAuthenticatorData(fromBase64Url(cred.response.authenticatorData), pending.rpID);
+    }
+    if (!cred.response.publicKey) throw new WebAuthnVerificationError("The browser did not report a public key");
+
+    await store.save({
+      id: cred.id,
+      userId,
+      username: pending.username,
+      publicKey: toSpkiPublicKey(cred.response.publicKey, cred.response.publicKeyAlgorithm),
+      createdAt: Date.now(),
+    });
+    return { verified: true };
+  },
+
+  async "/login/options"(body) {
+    const rpID = typeof body.rpID === "string" && body.rpID ? body.rpID : RP_ID;
+    const challenge = createChallenge();
+    pruneExpired(pendingLogins);
+    pendingLogins.set(challenge, { challenge, rpID, expiresAt: Date.now() + CEREMONY_TIMEOUT_MS });
+
+    return { challenge, rpId: rpID, timeout: CEREMONY_TIMEOUT_MS, userVerification: "required" };
+  },
+
+  async "/login/verify"(body) {
+    requireCredential(body, ["clientDataJSON", "authenticatorData", "signature"]);
+    const { cred } = body as { cred: AuthenticationCredential };
+    const credential = await store.get(cred.id);
+    if (!credential) throw new HttpError(404, "Unknown credential");
+
+    const { challenge } = parseClientData(cred.response.clientDataJSON, "webauthn.get", ORIGINS);
+    const pending = takePending(pendingLogins, challenge);
+    const authenticatorData = fromBase64Url(cred.response.authenticatorData);
+    verifyAuthenticatorData(authenticatorData, pending.rpID);
+
+    const verified = verifyAssertionSignature(
+      credential.publicKey,
+      authenticatorData,
+      fromBase64Url(cred.response.clientDataJSON),
+      fromBase64Url(cred.response.signature),
+    );
+    return verified ? { verification: { verified }, pubkey: credential.publicKey } : { verification: { verified } };
+  },
+};
+
+async function readJson(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {};
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+// `toWebAuthnKey` sends credentials, so the origin must be echoed rather than "*"
+function setCorsHeaders(request: IncomingMessage, response: ServerResponse): void {
+  const origin = request.headers.origin;
+  if (!origin || !ORIGINS.includes(origin)) return;
+  response.setHeader("Access-Control-Allow-Origin", origin);
+  response.setHeader("Access-Control-Allow-Credentials", "true");
+  response.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  response.setHeader(
+    "Access-Control-Allow-Headers",
+    request.headers["access-control-request-headers"] ?? "Content-Type",
+  );
+  response.setHeader("Vary", "Origin");
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+const server = createServer(async (request, response) => {
+  setCorsHeaders(request, response);
+  if (request.method === "OPTIONS") {
+    response.writeHead(204).end();
+    return;
+  }
+
+  const route = routes[new URL(request.url ?? "/", "http://localhost").pathname];
+  if (!route || request.method !== "POST") {
+    sendJson(response, 404, { error: "Not found" });
+    return;
+  }
+
+  try {
+    if (API_KEY && request.headers["x-api-key"] !== API_KEY) throw new HttpError(401, "Invalid API key");
+    sendJson(response, 200, await route(await readJson(request)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(response, error.status, { error: error.message });
+    } else if (error instanceof WebAuthnVerificationError) {
+      sendJson(response, 400, { error: error.message });
+    } else {
+      console.error(error);
+      sendJson(response, 500, { error: "Internal server error" });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Passkey server listening on http://localhost:${PORT} (rpID ${RP_ID}, origins ${ORIGINS.join(", ")})`);
+});
@@ -0,0 +1,93 @@
+import { createHash, createPublicKey, createVerify, randomBytes } from "crypto";
+import type { KeyObject } from "crypto";
+
+/** COSE identifier for ES256, the only algorithm the P-256 passkey validator can verify on chain */
+export const ES256 = -7;
+
+export class WebAuthnVerificationError extends Error {
+  override name = "WebAuthnVerificationError";
+}
+
+export const toBase64Url = (bytes: Buffer): string =>
+  bytes.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+export const fromBase64Url = (value: string): Buffer =>
+  Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+
+export const createChallenge = (): string => toBase64Url(randomBytes(32));
+
+const sha256 = (data: Buffer | string): Buffer => createHash("sha256").update(data).digest();
+
+/**
+ * Checks the ceremony type and origin the browser signed over and returns the challenge it answered
+ */
+export function parseClientData(
+  clientDataJSON: string,
+  type: "webauthn.create" | "webauthn.get",
+  origins: readonly string[],
+): { challenge: string; origin: string } {
+  let clientData: { readonly type?: unknown; readonly origin?: unknown; readonly challenge?: unknown } | null;
+  try {
+    clientData = JSON.parse(fromBase64Url(clientDataJSON).toString("utf8"));
+  } catch {
+    throw new WebAuthnVerificationError("Client data is not valid base64url-encoded JSON");
+  }
+  if (typeof clientData !== "object" || clientData === null) {
+    throw new WebAuthnVerificationError("Client data is not a JSON object");
+  }
+  if (typeof clientData.challenge !== "string" || typeof clientData.origin !== "string") {
+    throw new WebAuthnVerificationError("Client data is missing its challenge or origin");
+  }
+  if (clientData.type !== type) {
+    throw new WebAuthnVerificationError(`Unexpected client data type ${String(clientData.type)}`);
+  }
+  if (!origins.includes(clientData.origin)) {
+    throw new WebAuthnVerificationError(`Origin ${clientData.origin} is not allowed`);
+  }
+  return { challenge: clientData.challenge, origin: clientData.origin };
+}
+
+/**
+ * Checks the authenticator data is scoped to the relying party and that the user was present and verified
+ */
+export function verifyAuthenticatorData(authenticatorData: Buffer, rpID: string): void {
+  if (authenticatorData.length < 37) throw new WebAuthnVerificationError("Authenticator data is too short");
+  if (!authenticatorData.subarray(0, 32).equals(sha256(rpID))) {
+    throw new WebAuthnVerificationError(`Authenticator data is not scoped to ${rpID}`);
+  }
+
+  const flags = authenticatorData[32];
+  if (!(flags & 0x01)) throw new WebAuthnVerificationError("User presence flag is not set");
+  if (!(flags & 0x04)) throw new WebAuthnVerificationError("User verification flag is not set");
+}
+
+/**
+ * Validates a public key reported by the browser at registration and returns it as base64 SPKI DER
+ */
+export function toSpkiPublicKey(publicKey: string, algorithm: number): string {
+  if (algorithm !== ES256) throw new WebAuthnVerificationError(`Unsupported public key algorithm ${algorithm}`);
+
+  let key: KeyObject;
+  try {
+    key = createPublicKey({ key: fromBase64Url(publicKey), format: "der", type: "spki" });
+  } catch {
+    throw new WebAuthnVerificationError("Public key is not a valid SPKI key");
+  }
+  if (key.asymmetricKeyType !== "ec") throw new WebAuthnVerificationError("Public key is not an EC key");
+  return key.export({ format: "der", type: "spki" }).toString("base64");
+}
+
+/**
+ * Verifies an assertion signature over `authenticatorData || sha256(clientDataJSON)`
+ */
+export function verifyAssertionSignature(
+  publicKey: string,
+  authenticatorData: Buffer,
+  clientDataJSON: Buffer,
+  signature: Buffer,
+): boolean {
+  const key = createPublicKey({ key: Buffer.from(publicKey, "base64"), format: "der", type: "spki" });
+  return createVerify("sha256")
+    .update(Buffer.concat([authenticatorData, sha256(clientDataJSON)]))
+    .verify(key, signature);
+}
@@ -1,31 +1,82 @@
+import { Navigate, Route, Routes, useLocation, useNavigate } from "react-router";
 import { useAccount } from "wagmi";
 import { Account } from "@/components/account";
 import { WalletOptions } from "@/components/wallet-options";
+import { RecoverAccount } from "@/components/recover-account";
+import { RequireConnection } from "@/components/require-connection";
+import { WalletLayout } from "@/components/wallet-layout";
+import { SendPage } from "@/components/send-page";
+import { ReceivePage } from "@/components/receive-page";
+import { ActivityPage } from "@/components/activity-page";
+import { TokensPage } from "@/components/tokens-page";
+import { SettingsPage } from "@/components/settings-page";
+import { RpcMethodTesterModal } from "@/components/rpc-method-tester-modal";
 import { Card } from "@/components/ui/card";
 import { ThemeProvider } from "@/components/theme-provider";
+import { FiatCurrencyProvider } from "@/components/fiat-currency-provider";
 import { ModeToggle } from "@/components/mode-toggle";
 import { Toaster } from "@/components/ui/sonner";
+import { RECOVERY_PATH } from "@/utils/recovery-link";
+import { ROUTES, type ConnectRedirectState } from "@/utils/routes";
 
+/**
+ * Connect screen. Once connected, continues to the page the user was redirected from.
+ */
 function ConnectWallet() {
   const { isConnected } = useAccount();
-  if (isConnected) return <Account />;
+  const location = useLocation();
+
+  if (isConnected) {
+    const { from } = (location.state ?? {}) as ConnectRedirectState;
+    return <Navigate to={from ? `${from.pathname}${from.search}` : ROUTES.home} replace />;
+  }
   return <WalletOptions />;
 }
 
+/**
+ * Opens the RPC method tester over the overview; closing it goes back to the overview
+ */
+function RpcTester() {
+  const navigate = useNavigate();
+  return (
+    <>
+      <Account />
+      <RpcMethodTesterModal isOpen onClose={() => navigate(ROUTES.home)} />
+    </>
+  );
+}
+
 export function App() {
   return (
     <ThemeProvider defaultTheme="system" storageKey="wagmi-passkeys-theme">
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 p-4 transition-colors">
-        <Card className="relative w-full max-w-md bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm shadow-xl border-0 dark:border dark:border-slate-700">
-          {/* Theme toggle positioned at top right of the card */}
-          <div className="absolute top-3 right-3 z-10">
-            <ModeToggle />
-          </div>
+      <FiatCurrencyProvider storageKey="wagmi-passkeys-fiat-currency">
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 p-4 transition-colors">
+          <Card className="relative w-full max-w-md bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm shadow-xl border-0 dark:border dark:border-slate-700">
+            {/* Theme toggle positioned at top right of the card */}
+            <div className="absolute top-3 right-3 z-10">
+              <ModeToggle />
+            </div>
 
-          <ConnectWallet />
-        </Card>
-      </div>
-      <Toaster />
+            <Routes>
+              <Route path={RECOVERY_PATH} element={<RecoverAccount />} />
+              <Route path={ROUTES.connect} element={<ConnectWallet />} />
+              <Route element={<RequireConnection />}>
+                <Route element={<WalletLayout />}>
+                  <Route path={ROUTES.home} element={<Account />} />
+                  <Route path={ROUTES.send} element={<SendPage />} />
+                  <Route path={ROUTES.receive} element={<ReceivePage />} />
+                  <Route path={ROUTES.activity} element={<ActivityPage />} />
+                  <Route path={ROUTES.tokens} element={<TokensPage />} />
+                  <Route path={ROUTES.settings} element={<SettingsPage />} />
+                  <Route path={ROUTES.rpcTester} element={<RpcTester />} />
+                </Route>
+              </Route>
+              <Route path="*" element={<Navigate to={ROUTES.home} replace />} />
+            </Routes>
+          </Card>
+        </div>
+        <Toaster />
+      </FiatCurrencyProvider>
     </ThemeProvider>
   );
 }
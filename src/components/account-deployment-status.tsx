@@ -0,0 +1,48 @@
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { CheckCircle, CircleDashed, Loader2, Rocket } from "lucide-react";
+import { useAccountDeployment } from "@/hooks/use-account-deployment";
+import { Button } from "@/components/ui/button";
+
+export const AccountDeploymentStatus = () => {
+  const { chain } = useAccount();
+  const { isDeployed, isLoading, deploy, isDeploying, error } = useAccountDeployment();
+  const chainName = chain?.name ?? "this network";
+
+  const handleDeploy = async (): Promise<void> => {
+    try {
+      if (!(await deploy())) toast.info(`Account is already deployed on ${chainName}`);
+    } catch (deployError) {
+      toast.error(deployError instanceof Error ? deployError.message : "Failed to deploy account");
+    }
+  };
+
+  if (isLoading || isDeployed === undefined) return null;
+
+  if (isDeployed) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-green-700">
+        <CheckCircle className="h-3 w-3" />
+        Deployed on {chainName}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 border-t pt-2">
+      <div className="flex items-center gap-1.5 text-xs text-amber-700">
+        <CircleDashed className="h-3 w-3" />
+        Not yet deployed on {chainName}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The account is deployed with its first transaction. Deploy it now to use it with apps that check for contract
+        code.
+      </p>
+      <Button variant="outline" size="sm" onClick={handleDeploy} disabled={isDeploying} className="w-full">
+        {isDeploying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Rocket className="mr-2 h-4 w-4" />}
+        {isDeploying ? "Deploying..." : "Deploy Account"}
+      </Button>
+      {error && !isDeploying && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
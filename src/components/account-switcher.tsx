@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Check, ChevronsUpDown, Loader2, Pencil, Plus } from "lucide-react";
+import { usePasskeyAccounts } from "@/hooks/use-passkey-accounts";
+import { formatAddress } from "@/utils/format-address";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export const AccountSwitcher = () => {
+  const { accounts, createAccount, switchAccount, renameAccount, isCreating, isSwitching } = usePasskeyAccounts();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [label, setLabel] = useState("");
+
+  const activeAccount = accounts.find((account) => account.isActive);
+  if (!activeAccount) return null;
+
+  const handleCreate = async (): Promise<void> => {
+    try {
+      const created = await createAccount();
+      await switchAccount(created.address);
+      toast.success(`Switched to ${created.label}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create account");
+    }
+  };
+
+  const handleSwitch = async (address: (typeof accounts)[number]["address"]): Promise<void> => {
+    try {
+      await switchAccount(address);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to switch account");
+    }
+  };
+
+  const handleRename = async (): Promise<void> => {
+    try {
+      await renameAccount({ address: activeAccount.address, label: label.trim() });
+      setIsRenaming(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to rename account");
+    }
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="flex gap-2">
+        <Input
+          autoFocus
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && label.trim() && handleRename()}
+        />
+        <Button onClick={handleRename} disabled={!label.trim()}>
+          Save
+        </Button>
+        <Button variant="ghost" onClick={() => setIsRenaming(false)}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="flex-1 justify-between" disabled={isSwitching || isCreating}>
+            <span className="truncate">
+              {activeAccount.label}{" "}
+              <span className="font-mono text-muted-foreground">{formatAddress(activeAccount.address)}</span>
+            </span>
+            {isSwitching || isCreating ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <ChevronsUpDown className="h-4 w-4 opacity-50" />
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel>Accounts</DropdownMenuLabel>
+          {accounts.map((account) => (
+            <DropdownMenuItem key={account.address} onClick={() => !account.isActive && handleSwitch(account.address)}>
+              <Check className={`h-4 w-4 ${account.isActive ? "opacity-100" : "opacity-0"}`} />
+              <span className="flex-1 truncate">{account.label}</span>
+              <span className="font-mono text-xs text-muted-foreground">{formatAddress(account.address)}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleCreate}>
+            <Plus className="h-4 w-4" />
+            New account
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => {
+          setLabel(activeAccount.label);
+          setIsRenaming(true);
+        }}
+      >
+        <Pencil className="h-4 w-4" />
+        <span className="sr-only">Rename account</span>
+      </Button>
+    </div>
+  );
+};
@@ -1,31 +1,45 @@
-import { useAccount, useDisconnect, useEnsAvatar, useEnsName, useChainId } from "wagmi";
+import { useAccount, useDisconnect, useChainId } from "wagmi";
 import { usePasskeyName } from "@/hooks/use-passkey-name";
+import { useAddressName } from "@/hooks/use-name-resolution";
 import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { CheckCircle, Shield, LogOut, Copy, Gift, TestTube, Settings, ExternalLink } from "lucide-react";
+import {
+  CheckCircle,
+  Shield,
+  LogOut,
+  Copy,
+  Gift,
+  TestTube,
+  Settings,
+  ExternalLink,
+  Send,
+  ArrowDownLeft,
+} from "lucide-react";
 import { useState } from "react";
+import { Link } from "react-router";
 import { RewardsModal } from "@/components/rewards-modal";
 import { SimpleTestModal } from "@/components/simple-test-modal";
-import { TokenBalances } from "@/components/token-balances";
-import { RpcMethodTesterModal } from "@/components/rpc-method-tester-modal";
+import { PortfolioSummary } from "@/components/portfolio-summary";
+import { AccountSwitcher } from "@/components/account-switcher";
+import { AccountDeploymentStatus } from "@/components/account-deployment-status";
+import { isPasskeyConnector } from "@/connectors/passkeys-connector";
 import { openExplorerLink } from "@/utils/explorer-links";
+import { ROUTES } from "@/utils/routes";
 
 export function Account() {
   const { address, connector } = useAccount();
   const { disconnect } = useDisconnect();
-  const { data: ensName } = useEnsName({ address });
-  const { data: ensAvatar } = useEnsAvatar({ name: ensName! });
+  const { name: ensName, avatar: ensAvatar } = useAddressName(address);
   const passkeyName = usePasskeyName();
   const chainId = useChainId();
   const [copied, setCopied] = useState(false);
   const [isRewardsModalOpen, setIsRewardsModalOpen] = useState(false);
   const [isTestModalOpen, setIsTestModalOpen] = useState(false);
-  const [isRpcTesterModalOpen, setIsRpcTesterModalOpen] = useState(false);
 
-  const isPasskey = connector?.name === "Passkey";
+  const isPasskey = isPasskeyConnector(connector);
 
   const copyAddress = async () => {
     if (address) {
@@ -71,6 +85,8 @@ export function Account() {
           )}
 
           <div className="w-full space-y-3">
+            {isPasskey && <AccountSwitcher />}
+
             <div className="bg-muted/50 rounded-lg p-4 space-y-2">
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium text-muted-foreground">Smart Account Address</span>
@@ -90,6 +106,7 @@ export function Account() {
               </div>
               <div className="font-mono text-sm break-all">{address}</div>
               {ensName && <div className="text-sm text-blue-600 font-medium">ENS: {ensName}</div>}
+              {isPasskey && <AccountDeploymentStatus />}
             </div>
 
             {connector && (
@@ -102,22 +119,36 @@ export function Account() {
 
         <Separator />
 
-        {/* Token Balances Section */}
-        <div className="space-y-4">
-          <TokenBalances />
-        </div>
+        <PortfolioSummary />
 
         <Separator />
 
         <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <Button asChild variant="default" size="lg">
+              <Link to={ROUTES.send}>
+                <Send className="mr-2 h-4 w-4" />
+                Send
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="lg">
+              <Link to={ROUTES.receive}>
+                <ArrowDownLeft className="mr-2 h-4 w-4" />
+                Receive
+              </Link>
+            </Button>
+          </div>
+
           <Button
-            onClick={() => setIsRpcTesterModalOpen(true)}
+            asChild
             variant="default"
             size="lg"
             className="w-full bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white border-0"
           >
-            <Settings className="mr-2 h-4 w-4" />
-            RPC Method Tester
+            <Link to={ROUTES.rpcTester}>
+              <Settings className="mr-2 h-4 w-4" />
+              RPC Method Tester
+            </Link>
           </Button>
 
           <Button
@@ -154,7 +185,6 @@ export function Account() {
 
       <SimpleTestModal isOpen={isTestModalOpen} onClose={() => setIsTestModalOpen(false)} />
       <RewardsModal isOpen={isRewardsModalOpen} onClose={() => setIsRewardsModalOpen(false)} />
-      <RpcMethodTesterModal isOpen={isRpcTesterModalOpen} onClose={() => setIsRpcTesterModalOpen(false)} />
     </>
   );
 }
@@ -0,0 +1,350 @@
+import { useState } from "react";
+import { useAccount, useConfig } from "wagmi";
+import { formatUnits, hexToBigInt } from "viem";
+import { toast } from "sonner";
+import {
+  AlertCircle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  ExternalLink,
+  FileCode,
+  History,
+  Loader2,
+  RefreshCw,
+  Rocket,
+  XCircle,
+  Zap,
+} from "lucide-react";
+import type { ActivityKind, ActivityRecord, TokenDelta } from "@/connectors/passkeys-activity-store";
+import { isPasskeyConnector } from "@/connectors/passkeys-connector";
+import type { UserOperationStatus } from "@/connectors/passkeys-user-operation-store";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { AddressName } from "@/components/address-name";
+import { useActivity } from "@/hooks/use-activity";
+import { useReplaceTransaction, type ReplacementAction } from "@/hooks/use-replace-transaction";
+import { useTokenRegistry } from "@/hooks/use-token-registry";
+import { getExplorerUrl } from "@/utils/explorer-links";
+import { formatAddress } from "@/utils/format-address";
+
+const PAGE_SIZE = 5;
+const ALL = "all";
+
+type StatusFilter = typeof ALL | "pending" | "included" | "failed";
+
+const KIND_LABELS: Record<ActivityKind, string> = {
+  send: "Sent",
+  receive: "Received",
+  contract: "Contract Interaction",
+  deployment: "Account Deployment",
+};
+
+const KIND_ICONS: Record<ActivityKind, typeof ArrowUpRight> = {
+  send: ArrowUpRight,
+  receive: ArrowDownLeft,
+  contract: FileCode,
+  deployment: Rocket,
+};
+
+const STATUS_LABELS: Record<UserOperationStatus, string> = {
+  submitted: "Pending",
+  bundled: "Pending",
+  included: "Confirmed",
+  failed: "Failed",
+};
+
+const matchesStatus = (status: UserOperationStatus, filter: StatusFilter): boolean =>
+  filter === ALL || (filter === "pending" ? status === "submitted" || status === "bundled" : status === filter);
+
+const DeltaLine = ({ delta, chainId }: { delta: TokenDelta; chainId: number }) => {
+  const config = useConfig();
+  const { tokens } = useTokenRegistry(chainId);
+  const nativeCurrency = config.chains.find((chain) => chain.id === chainId)?.nativeCurrency;
+  const token = delta.token
+    ? tokens.find((registered) => registered.address.toLowerCase() === delta.token!.toLowerCase())
+    : undefined;
+
+  // Tokens outside the registry have unknown decimals, so their raw amount is shown
+  const amount =
+    delta.token && !token
+      ? hexToBigInt(delta.amount).toString()
+      : formatUnits(hexToBigInt(delta.amount), token?.decimals ?? nativeCurrency?.decimals ?? 18);
+  const symbol = delta.token ? (token?.symbol ?? formatAddress(delta.token)) : (nativeCurrency?.symbol ?? "ETH");
+
+  return (
+    <p className={`text-xs ${delta.direction === "in" ? "text-green-600" : "text-muted-foreground"}`}>
+      {delta.direction === "in" ? "+" : "-"}
+      {amount} {symbol} {delta.direction === "in" ? "from" : "to"} <AddressName address={delta.counterparty} />
+    </p>
+  );
+};
+
+const ActivityItem = ({ record }: { record: ActivityRecord }) => {
+  const config = useConfig();
+  const { replace, isReplacing } = useReplaceTransaction();
+  const chainName = config.chains.find((chain) => chain.id === record.chainId)?.name ?? `Chain ${record.chainId}`;
+  const Icon = KIND_ICONS[record.kind];
+  // Transfers found in logs are already mined, and bundled operations are out of the mempool
+  const isReplaceable = record.status === "submitted" && record.method !== "eth_getLogs";
+
+  const handleReplace = async (action: ReplacementAction): Promise<void> => {
+    try {
+      await replace({ record, action });
+      toast.success(action === "cancel" ? "Cancellation submitted" : "Resubmitted with higher fees");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to replace the transaction");
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg border bg-card space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="text-sm font-medium truncate">{KIND_LABELS[record.kind]}</span>
+          {(record.kind === "send" || record.kind === "receive") && (
+            <Badge
+              variant="outline"
+              className={`text-[10px] px-1.5 py-0 ${record.kind === "receive" ? "text-green-700 border-green-200" : ""}`}
+            >
+              {record.kind === "receive" ? "Inbound" : "Outbound"}
+            </Badge>
+          )}
+        </div>
+        <Badge
+          variant={record.status === "failed" ? "destructive" : record.status === "included" ? "secondary" : "outline"}
+          className="text-xs"
+        >
+          {STATUS_LABELS[record.status]}
+        </Badge>
+      </div>
+
+      {record.deltas.map((delta, index) => (
+        <DeltaLine key={index} delta={delta} chainId={record.chainId} />
+      ))}
+      {record.error && <p className="text-xs text-destructive truncate">{record.error}</p>}
+
+      {isReplaceable && (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => handleReplace("speedUp")}
+            disabled={isReplacing}
+          >
+            <Zap className="h-3 w-3 mr-1" />
+            Speed up
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => handleReplace("cancel")}
+            disabled={isReplacing}
+          >
+            <XCircle className="h-3 w-3 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {chainName} · {new Date(record.submittedAt).toLocaleString()}
+        </span>
+        {record.transactionHash && (
+          <a
+            href={getExplorerUrl(record.chainId, "tx", record.transactionHash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 hover:text-foreground"
+          >
+            <ExternalLink className="h-3 w-3" />
+            View
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ActivityList = () => {
+  const { connector } = useAccount();
+  const config = useConfig();
+  const { activity, isLoading, isIndexing, error, refetch } = useActivity();
+  const [chainFilter, setChainFilter] = useState(ALL);
+  const [kindFilter, setKindFilter] = useState<typeof ALL | ActivityKind>(ALL);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>(ALL);
+  const [page, setPage] = useState(0);
+
+  const filtered = activity.filter(
+    (record) =>
+      (chainFilter === ALL || record.chainId === Number(chainFilter)) &&
+      (kindFilter === ALL || record.kind === kindFilter) &&
+      matchesStatus(record.status, statusFilter),
+  );
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageItems = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  // Any filter change starts over from the first page
+  const handleFilterChange = (apply: () => void): void => {
+    apply();
+    setPage(0);
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <div className="flex items-center space-x-2">
+          <History className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Activity</CardTitle>
+        </div>
+        <Button variant="ghost" size="sm" onClick={refetch} disabled={isLoading || isIndexing} className="h-8 w-8 p-0">
+          <RefreshCw className={`h-4 w-4 ${isLoading || isIndexing ? "animate-spin" : ""}`} />
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {!isPasskeyConnector(connector) && (
+          <p className="text-xs text-muted-foreground">
+            Showing transfers sent from this app and token transfers found on chain. Check{" "}
+            {connector?.name ?? "your wallet"} for its full history.
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <Select value={chainFilter} onValueChange={(value) => handleFilterChange(() => setChainFilter(value))}>
+            <SelectTrigger className="h-8 w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All networks</SelectItem>
+              {config.chains.map((chain) => (
+                <SelectItem key={chain.id} value={String(chain.id)}>
+                  {chain.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={kindFilter}
+            onValueChange={(value) => handleFilterChange(() => setKindFilter(value as ActivityKind))}
+          >
+            <SelectTrigger className="h-8 w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                <SelectItem key={kind} value={kind}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => handleFilterChange(() => setStatusFilter(value as StatusFilter))}
+          >
+            <SelectTrigger className="h-8 w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="included">Confirmed</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load activity
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : pageItems.length > 0 ? (
+          <div className="space-y-2">
+            {pageItems.map((record) => (
+              <ActivityItem key={record.id} record={record} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-4 text-sm text-muted-foreground">
+            {activity.length > 0 ? "No activity matches these filters" : "No activity yet"}
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(Math.max(0, currentPage - 1));
+                  }}
+                  aria-disabled={currentPage === 0}
+                  className={currentPage === 0 ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+              {Array.from({ length: pageCount }, (_, index) => (
+                <PaginationItem key={index}>
+                  <PaginationLink
+                    href="#"
+                    isActive={index === currentPage}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(index);
+                    }}
+                  >
+                    {index + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(Math.min(pageCount - 1, currentPage + 1));
+                  }}
+                  aria-disabled={currentPage === pageCount - 1}
+                  className={currentPage === pageCount - 1 ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+
+        {activity.some((record) => record.status === "submitted" || record.status === "bundled") && (
+          <p className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Waiting for pending operations to settle
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,20 @@
+import { History } from "lucide-react";
+import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ActivityList } from "@/components/activity-list";
+
+export function ActivityPage() {
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <History className="h-5 w-5" />
+          Activity
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        <ActivityList />
+      </CardContent>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+import React, { useState } from "react";
+import { useChainId, useReadContracts } from "wagmi";
+import { erc20Abi, isAddress } from "viem";
+import { toast } from "sonner";
+import { AlertCircle, Coins, Loader2, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTokenRegistry } from "@/hooks/use-token-registry";
+
+interface AddTokenDialogProps {
+  readonly isOpen: boolean;
+  readonly onClose: () => void;
+}
+
+/**
+ * Adds an ERC-20 token to the registry for the current chain after checking the contract answers
+ * `name`, `symbol` and `decimals`
+ */
+export function AddTokenDialog({ isOpen, onClose }: AddTokenDialogProps) {
+  const chainId = useChainId();
+  const { tokens, addToken, isAdding } = useTokenRegistry(chainId);
+  const [tokenAddress, setTokenAddress] = useState("");
+
+  const trimmedAddress = tokenAddress.trim();
+  const isValidAddress = isAddress(trimmedAddress);
+  const isKnown = tokens.some((token) => token.address.toLowerCase() === trimmedAddress.toLowerCase());
+
+  const { data: metadata, isLoading } = useReadContracts({
+    contracts: (["name", "symbol", "decimals"] as const).map((functionName) => ({
+      address: trimmedAddress as `0x${string}`,
+      abi: erc20Abi,
+      functionName,
+      chainId,
+    })),
+    query: { enabled: isValidAddress && !isKnown },
+  });
+
+  const token =
+    metadata && metadata.every((result) => result.status === "success")
+      ? {
+          chainId,
+          address: trimmedAddress as `0x${string}`,
+          name: metadata[0].result as string,
+          symbol: metadata[1].result as string,
+          decimals: metadata[2].result as number,
+        }
+      : undefined;
+
+  const validationError = !trimmedAddress
+    ? undefined
+    : !isValidAddress
+      ? "Enter a valid contract address"
+      : isKnown
+        ? "This token is already in the list"
+        : metadata && !token
+          ? "This address does not look like an ERC-20 token on this network"
+          : undefined;
+
+  const handleClose = (): void => {
+    setTokenAddress("");
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!token) return;
+
+    try {
+      await addToken(token);
+      toast.success(`Added ${token.symbol}`);
+      handleClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add token");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Add Token
+          </DialogTitle>
+          <DialogDescription>Track an ERC-20 token on this network by its contract address.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="token-address">Contract Address</Label>
+            <Input
+              id="token-address"
+              value={tokenAddress}
+              onChange={(e) => setTokenAddress(e.target.value)}
+              placeholder="0x..."
+              className="font-mono text-sm"
+              autoFocus
+            />
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading token contract...
+            </div>
+          )}
+
+          {validationError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{validationError}</AlertDescription>
+            </Alert>
+          )}
+
+          {token && (
+            <div className="bg-muted/50 rounded-lg p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Name:</span>
+                <span className="font-medium">{token.name}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Symbol:</span>
+                <span className="font-medium">{token.symbol}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Decimals:</span>
+                <span className="font-medium">{token.decimals}</span>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!token || isAdding}>
+              {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Add Token
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
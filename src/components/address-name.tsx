@@ -0,0 +1,23 @@
+import type { Address } from "viem";
+import { useAddressName } from "@/hooks/use-name-resolution";
+import { formatAddress } from "@/utils/format-address";
+
+interface AddressNameProps {
+  readonly address: Address;
+  /** Name already known for the address, e.g. the one a transfer was sent to, which skips the lookup */
+  readonly name?: string;
+  readonly className?: string;
+}
+
+/**
+ * Shows an address by its name when it has one, otherwise shortened. The full address is in the tooltip.
+ */
+export function AddressName({ address, name, className }: AddressNameProps) {
+  const { name: lookedUpName } = useAddressName(name ? undefined : address);
+
+  return (
+    <span title={address} className={className}>
+      {formatAddress(address, name ?? lookedUpName)}
+    </span>
+  );
+}
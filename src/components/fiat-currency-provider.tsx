@@ -0,0 +1,45 @@
+import { createContext, useContext, useState } from "react";
+import { FIAT_CURRENCIES, type FiatCurrency } from "@/utils/price-service";
+
+type FiatCurrencyProviderProps = {
+  readonly children: React.ReactNode;
+  readonly defaultCurrency?: FiatCurrency;
+  readonly storageKey?: string;
+};
+
+type FiatCurrencyProviderState = {
+  readonly currency: FiatCurrency;
+  readonly setCurrency: (currency: FiatCurrency) => void;
+};
+
+const initialState: FiatCurrencyProviderState = {
+  currency: "usd",
+  setCurrency: () => null,
+};
+
+const FiatCurrencyProviderContext = createContext<FiatCurrencyProviderState>(initialState);
+
+const isFiatCurrency = (value: string | null): value is FiatCurrency => FIAT_CURRENCIES.includes(value as FiatCurrency);
+
+export const FiatCurrencyProvider = ({
+  children,
+  defaultCurrency = "usd",
+  storageKey = "fiat-currency",
+}: FiatCurrencyProviderProps) => {
+  const [currency, setCurrency] = useState<FiatCurrency>(() => {
+    const stored = localStorage.getItem(storageKey);
+    return isFiatCurrency(stored) ? stored : defaultCurrency;
+  });
+
+  const value = {
+    currency,
+    setCurrency: (currency: FiatCurrency) => {
+      localStorage.setItem(storageKey, currency);
+      setCurrency(currency);
+    },
+  };
+
+  return <FiatCurrencyProviderContext.Provider value={value}>{children}</FiatCurrencyProviderContext.Provider>;
+};
+
+export const useFiatCurrency = () => useContext(FiatCurrencyProviderContext);
@@ -2,9 +2,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Fuel, AlertTriangle, Info, Clock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Fuel, AlertTriangle, Info, Clock, SlidersHorizontal } from "lucide-react";
 import { formatUnits } from "viem";
-import type { GasOption } from "@/hooks/use-gas-estimation";
+import type { CustomGas, CustomGasInput, GasOption, UserOperationGasBreakdown } from "@/hooks/use-gas-estimation";
 
 interface GasEstimationDisplayProps {
   readonly slow: {
@@ -30,17 +32,102 @@ interface GasEstimationDisplayProps {
   };
   readonly selectedOption: GasOption;
   readonly onOptionChange: (option: GasOption) => void;
+  /** Enables the advanced mode, where fees and gas limit are typed in */
+  readonly custom?: CustomGas;
+  /** Shown instead of the speed options for user operations, whose price the bundler sets */
+  readonly userOperation?: UserOperationGasBreakdown;
   readonly isLoading: boolean;
   readonly error?: Error;
   readonly variant?: "default" | "compact";
 }
 
+const GasRow = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex items-center justify-between text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-mono font-medium">{value}</span>
+  </div>
+);
+
+const CUSTOM_GAS_FIELDS: readonly { key: keyof CustomGasInput; label: string; unit: string }[] = [
+  { key: "maxFeePerGas", label: "Max fee", unit: "Gwei" },
+  { key: "maxPriorityFeePerGas", label: "Priority fee", unit: "Gwei" },
+  { key: "gasLimit", label: "Gas limit", unit: "gas" },
+];
+
+const CustomGasFields = ({ custom }: { custom: CustomGas }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-3 gap-2">
+      {CUSTOM_GAS_FIELDS.map((field) => (
+        <div key={field.key} className="space-y-1">
+          <Label htmlFor={`custom-gas-${field.key}`} className="text-xs">
+            {field.label} <span className="text-muted-foreground">({field.unit})</span>
+          </Label>
+          <Input
+            id={`custom-gas-${field.key}`}
+            inputMode="decimal"
+            className="h-8 font-mono text-xs"
+            value={custom.input[field.key]}
+            onChange={(e) => custom.setInput({ ...custom.input, [field.key]: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+    {custom.baseFeePerGas !== undefined && (
+      <p className="text-xs text-muted-foreground">Current base fee: {formatUnits(custom.baseFeePerGas, 9)} Gwei</p>
+    )}
+    {custom.error ? (
+      <p className="text-xs text-destructive">{custom.error}</p>
+    ) : (
+      <p className="text-xs text-muted-foreground">
+        Max cost: {parseFloat(custom.settings.totalCostEth).toFixed(6)} ETH
+        {custom.settings.totalCostUsd && ` ($${custom.settings.totalCostUsd})`}
+      </p>
+    )}
+  </div>
+);
+
+const UserOperationGasDetails = ({
+  userOperation,
+  gas,
+}: {
+  userOperation: UserOperationGasBreakdown;
+  gas: GasEstimationDisplayProps["standard"];
+}) => (
+  <div className="space-y-2">
+    <GasRow label="Call gas" value={userOperation.callGasLimit.toLocaleString()} />
+    <GasRow label="Verification gas" value={userOperation.verificationGasLimit.toLocaleString()} />
+    <GasRow label="Pre-verification gas" value={userOperation.preVerificationGas.toLocaleString()} />
+    {userOperation.hasPaymaster && (
+      <GasRow label="Paymaster gas" value={userOperation.paymasterGasLimit.toLocaleString()} />
+    )}
+    <div className="pt-2 border-t space-y-2">
+      <GasRow label="Total gas" value={gas.gasLimit.toLocaleString()} />
+      <GasRow label="Max fee" value={`${formatUnits(gas.gasPrice, 9)} Gwei`} />
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">Max cost</span>
+        {userOperation.hasPaymaster ? (
+          <Badge variant="secondary" className="text-xs">
+            Paid by paymaster
+          </Badge>
+        ) : (
+          <div className="text-right">
+            <div className="font-medium">{parseFloat(gas.totalCostEth).toFixed(6)} ETH</div>
+            {gas.totalCostUsd && <div className="text-xs text-muted-foreground">${gas.totalCostUsd}</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
 export const GasEstimationDisplay = ({
   slow,
   standard,
   fast,
   selectedOption,
   onOptionChange,
+  custom,
+  userOperation,
   isLoading,
   error,
   variant = "default",
@@ -118,16 +205,22 @@ export const GasEstimationDisplay = ({
       <div className="flex items-center justify-between text-sm">
         <div className="flex items-center gap-2 text-muted-foreground">
           <Fuel className="h-3 w-3" />
-          <span>~{parseFloat(selectedGas.totalCostEth).toFixed(6)} ETH</span>
-          {selectedGas.totalCostUsd && (
+          {userOperation?.hasPaymaster ? (
+            <span>Gas paid by paymaster</span>
+          ) : (
             <>
-              <span>•</span>
-              <span>${selectedGas.totalCostUsd}</span>
+              <span>~{parseFloat(selectedGas.totalCostEth).toFixed(6)} ETH</span>
+              {selectedGas.totalCostUsd && (
+                <>
+                  <span>•</span>
+                  <span>${selectedGas.totalCostUsd}</span>
+                </>
+              )}
             </>
           )}
         </div>
         <Badge variant="outline" className="text-xs">
-          {selectedOption}
+          {userOperation ? `${selectedGas.gasLimit.toLocaleString()} gas` : selectedOption}
         </Badge>
       </div>
     );
@@ -157,6 +250,26 @@ export const GasEstimationDisplay = ({
     },
   ];
 
+  if (userOperation) {
+    return (
+      <Card className="mt-2">
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <Fuel className="h-4 w-4 text-primary" />
+            User Operation Gas
+            <Badge variant="secondary" className="text-xs">
+              <Info className="h-3 w-3 mr-1" />
+              Bundler estimate
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <UserOperationGasDetails userOperation={userOperation} gas={selectedGas} />
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="mt-2">
       <CardHeader className="pb-3">
@@ -216,6 +329,25 @@ export const GasEstimationDisplay = ({
               </div>
             </div>
           ))}
+
+          {custom && (
+            <div
+              className={`border rounded-lg p-3 transition-colors ${
+                selectedOption === "custom" ? "bg-muted/40" : "cursor-pointer hover:bg-muted/50"
+              }`}
+              onClick={() => selectedOption !== "custom" && onOptionChange("custom")}
+            >
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+                Advanced
+              </div>
+              {selectedOption === "custom" && (
+                <div className="mt-3">
+                  <CustomGasFields custom={custom} />
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Gas limit info */}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Fingerprint, Loader2, Plus, Trash2 } from "lucide-react";
+import { usePasskeys } from "@/hooks/use-passkeys";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+
+export const PasskeyDevices = () => {
+  const { passkeys, isLoading, addPasskey, removePasskey, isAdding, removingId } = usePasskeys();
+  const [name, setName] = useState("");
+
+  const handleAdd = async (): Promise<void> => {
+    try {
+      await addPasskey(name);
+      setName("");
+      toast.success("Passkey added to your account");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add passkey");
+    }
+  };
+
+  const handleRemove = async (id: string): Promise<void> => {
+    try {
+      await removePasskey(id);
+      toast.success("Passkey removed from your account");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove passkey");
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Fingerprint className="h-5 w-5" />
+          Passkeys
+        </CardTitle>
+        <CardDescription>
+          Add a passkey from another device so losing one device does not lose the wallet.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {passkeys.map((passkey) => (
+              <div key={passkey.id} className="flex items-center justify-between p-3 rounded-lg border bg-card">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{passkey.name}</span>
+                    {passkey.isPrimary && <Badge variant="secondary">Primary</Badge>}
+                  </div>
+                  {passkey.addedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Added {new Date(passkey.addedAt).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+                {!passkey.isPrimary && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(passkey.id)}
+                    disabled={!!removingId}
+                    className="text-red-600 hover:bg-red-50"
+                  >
+                    {removingId === passkey.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input placeholder="Passkey name, e.g. Work laptop" value={name} onChange={(e) => setName(e.target.value)} />
+          <Button onClick={handleAdd} disabled={!name.trim() || isAdding}>
+            {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
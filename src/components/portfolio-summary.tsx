@@ -0,0 +1,98 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { LineChart } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useFiatCurrency } from "@/components/fiat-currency-provider";
+import { usePortfolio } from "@/hooks/use-portfolio";
+import { formatFiat } from "@/utils/format-fiat";
+import { FIAT_CURRENCIES, type FiatCurrency } from "@/utils/price-service";
+
+const chartConfig = {
+  value: { label: "Value", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+export const PortfolioSummary = () => {
+  const { totalValue, currency, history, isLoading } = usePortfolio();
+  const { setCurrency } = useFiatCurrency();
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div className="flex items-center space-x-2">
+          <LineChart className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Portfolio</CardTitle>
+        </div>
+        <Select value={currency} onValueChange={(value) => setCurrency(value as FiatCurrency)}>
+          <SelectTrigger className="h-8 w-20 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FIAT_CURRENCIES.map((fiat) => (
+              <SelectItem key={fiat} value={fiat}>
+                {fiat.toUpperCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {isLoading && totalValue === undefined ? (
+          <Skeleton className="h-8 w-32" />
+        ) : (
+          <p className="text-2xl font-semibold">
+            {totalValue !== undefined ? formatFiat(totalValue, currency) : "Price unavailable"}
+          </p>
+        )}
+
+        {history.length > 1 ? (
+          <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+            <AreaChart data={[...history]} margin={{ left: 0, right: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(timestamp: number) => new Date(timestamp).toLocaleDateString()}
+              />
+              <YAxis hide domain={["auto", "auto"]} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    indicator="line"
+                    labelFormatter={(_, payload) => new Date(payload[0]?.payload.timestamp).toLocaleString()}
+                    formatter={(value) => formatFiat(Number(value), currency)}
+                  />
+                }
+              />
+              <Area
+                dataKey="value"
+                type="monotone"
+                stroke="var(--color-value)"
+                fill="var(--color-value)"
+                fillOpacity={0.2}
+                connectNulls={false}
+              />
+            </AreaChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Balance history builds up while the wallet is open. Snapshots are taken every 15 minutes.
+          </p>
+        )}
+        {history.length > 1 && (
+          <p className="text-xs text-muted-foreground">
+            Each point is valued at the prices when it was recorded. Gaps are times the wallet was closed or prices were
+            unavailable.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import qrcode from "qrcode-generator";
+import { cn } from "@/lib/utils";
+
+interface QrCodeProps {
+  readonly value: string;
+  readonly className?: string;
+}
+
+/** Light modules around the code, which scanners need to find its edges */
+const QUIET_ZONE = 2;
+
+/**
+ * Renders `value` as a QR code SVG that scales to its container
+ */
+export function QrCode({ value, className }: QrCodeProps) {
+  const { size, path } = useMemo(() => {
+    const code = qrcode(0, "M");
+    code.addData(value);
+    code.make();
+
+    const count = code.getModuleCount();
+    let modules = "";
+    for (let row = 0; row < count; row++) {
+      for (let col = 0; col < count; col++) {
+        if (code.isDark(row, col)) modules += `M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`;
+      }
+    }
+    return { size: count + QUIET_ZONE * 2, path: modules };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={value}
+      className={cn("bg-white", className)}
+    >
+      <path d={path} fill="black" />
+    </svg>
+  );
+}
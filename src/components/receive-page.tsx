@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useAccount, useChainId, useConfig } from "wagmi";
+import { ArrowDownLeft, CheckCircle, Copy, Link2 } from "lucide-react";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QrCode } from "@/components/qr-code";
+import { useTokenBalances } from "@/hooks/use-token-balances";
+import { buildPaymentRequest } from "@/utils/payment-request";
+import { parseAmount } from "@/utils/parse-amount";
+
+const NATIVE_TOKEN = "native";
+
+export function ReceivePage() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const config = useConfig();
+  const nativeCurrency = config.chains.find((chain) => chain.id === chainId)?.nativeCurrency ?? {
+    symbol: "ETH",
+    decimals: 18,
+  };
+  const { tokenBalances } = useTokenBalances();
+  const [tokenKey, setTokenKey] = useState(NATIVE_TOKEN);
+  const [amount, setAmount] = useState("");
+  const [copied, setCopied] = useState<"address" | "request">();
+
+  const token = tokenBalances.find((tokenBalance) => tokenBalance.address === tokenKey);
+  const parsedAmount = parseAmount(amount.trim(), token?.decimals ?? nativeCurrency.decimals);
+  const amountError = amount.trim() && parsedAmount === undefined ? "Enter a valid amount" : undefined;
+
+  const paymentRequest = address
+    ? buildPaymentRequest({ recipient: address, chainId, token: token?.address, amount: parsedAmount })
+    : undefined;
+
+  const copy = async (value: string | undefined, field: "address" | "request") => {
+    if (value) {
+      await navigator.clipboard.writeText(value);
+      setCopied(field);
+      setTimeout(() => setCopied(undefined), 2000);
+    }
+  };
+
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <ArrowDownLeft className="h-5 w-5" />
+          Receive
+        </CardTitle>
+        <CardDescription>
+          Scan or share the payment request. Wallets that support EIP-681 prefill the asset and amount.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {paymentRequest && (
+          <div className="mx-auto w-56 overflow-hidden rounded-lg border">
+            <QrCode value={paymentRequest} className="w-full" />
+          </div>
+        )}
+
+        <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-muted-foreground">Smart Account Address</span>
+            <Button variant="ghost" size="sm" onClick={() => copy(address, "address")} className="h-6 w-6 p-0">
+              {copied === "address" ? <CheckCircle className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
+            </Button>
+          </div>
+          <div className="font-mono text-sm break-all">{address}</div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="receive-token">Asset</Label>
+            <Select value={token ? token.address : NATIVE_TOKEN} onValueChange={setTokenKey}>
+              <SelectTrigger id="receive-token" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NATIVE_TOKEN}>{nativeCurrency.symbol}</SelectItem>
+                {tokenBalances.map((tokenBalance) => (
+                  <SelectItem key={tokenBalance.address} value={tokenBalance.address}>
+                    {tokenBalance.symbol}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receive-amount">Amount (optional)</Label>
+            <Input
+              id="receive-amount"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.0"
+              inputMode="decimal"
+              className="font-mono text-sm"
+            />
+          </div>
+        </div>
+        {amountError && <p className="text-xs text-destructive">{amountError}</p>}
+
+        <div className="space-y-2">
+          <Label>Payment request</Label>
+          <div className="rounded-md border bg-muted/30 p-2 font-mono text-xs break-all">{paymentRequest}</div>
+          <Button variant="outline" className="w-full" onClick={() => copy(paymentRequest, "request")}>
+            {copied === "request" ? (
+              <CheckCircle className="mr-2 h-4 w-4 text-green-600" />
+            ) : (
+              <Link2 className="mr-2 h-4 w-4" />
+            )}
+            {copied === "request" ? "Copied" : "Copy Payment Request"}
+          </Button>
+        </div>
+      </CardContent>
+    </>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router";
+import { useAccount, useConfig, useConnect, useDisconnect, useSwitchChain, useWalletClient } from "wagmi";
+import { isAddress, type Address } from "viem";
+import { toast } from "sonner";
+import { ArrowLeft, Clock, Fingerprint, LifeBuoy, Loader2, ShieldCheck, Wallet, XCircle } from "lucide-react";
+import { usePasskeysRecovery } from "@/hooks/use-passkeys-recovery";
+import { isPasskeyConnector } from "@/connectors/passkeys-connector";
+import type { PendingRecovery, RecoveryGuardianSigner } from "@/connectors/passkeys-recovery";
+import { parseRecoveryLink } from "@/utils/recovery-link";
+import { ROUTES } from "@/utils/routes";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+/**
+ * Recovery page: registers a new passkey for an account and lets a backup passkey make it the account's owner,
+ * or a guardian wallet once enough guardians approved and the waiting period has passed
+ */
+export function RecoverAccount() {
+  const [searchParams] = useSearchParams();
+  const linkParams = parseRecoveryLink(searchParams);
+  const config = useConfig();
+  const { chains } = config;
+  const recovery = usePasskeysRecovery();
+  const navigate = useNavigate();
+
+  const { connector: guardianConnector, isConnected } = useAccount();
+  const { connectors, connect, isPending: isConnecting } = useConnect();
+  const { disconnect } = useDisconnect();
+  const { data: walletClient } = useWalletClient();
+  const { switchChainAsync } = useSwitchChain();
+  const guardianConnectors = connectors.filter((connector) => !isPasskeyConnector(connector));
+  const isGuardianWalletConnected = isConnected && !isPasskeyConnector(guardianConnector);
+
+  const [accountAddress, setAccountAddress] = useState<string>(linkParams.accountAddress ?? "");
+  const [chainId, setChainId] = useState<number>(linkParams.chainId ?? chains[0].id);
+  const [passkeyName, setPasskeyName] = useState("");
+  const [pending, setPending] = useState<PendingRecovery>();
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [isApproving, setIsApproving] = useState(false);
+  const [executingWith, setExecutingWith] = useState<RecoveryGuardianSigner["type"]>();
+  const [now, setNow] = useState(Date.now());
+
+  const isValidAccount = isAddress(accountAddress);
+  const isApproved = pending?.executableAt !== undefined;
+  const isExecutable = isApproved && pending.executableAt <= now;
+
+  useEffect(() => {
+    if (!recovery || !isValidAccount) {
+      setPending(undefined);
+      return;
+    }
+    recovery
+      .getPendingRecovery(accountAddress as Address, chainId)
+      .then(setPending)
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load the recovery"));
+  }, [recovery, accountAddress, chainId, isValidAccount]);
+
+  // Keep the countdown current while an approved recovery waits for its time lock
+  useEffect(() => {
+    if (!isApproved || isExecutable) return;
+    const interval = setInterval(() => setNow(Date.now()), 1_000);
+    return () => clearInterval(interval);
+  }, [isApproved, isExecutable]);
+
+  const handleRequest = async (): Promise<void> => {
+    if (!recovery) return;
+    setIsRequesting(true);
+    try {
+      const requested = await recovery.requestRecovery({
+        accountAddress: accountAddress as Address,
+        chainId,
+        passkeyName,
+      });
+      setPending(requested);
+      toast.success("Recovery requested. A new passkey was created for this account.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to request recovery");
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const handleApprove = async (): Promise<void> => {
+    if (!recovery || !walletClient) return;
+    setIsApproving(true);
+    try {
+      if (walletClient.chain.id !== chainId) {
+        await switchChainAsync({ chainId: chainId as (typeof config)["chains"][number]["id"] });
+      }
+      const approved = await recovery.approveRecovery({
+        accountAddress: accountAddress as Address,
+        chainId,
+        guardian: walletClient,
+      });
+      setPending(approved);
+      toast.success(
+        approved.executableAt !== undefined
+          ? "Recovery approved. It can be completed once the waiting period has passed."
+          : "Approval recorded. Connect the next guardian's wallet to approve too.",
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to approve recovery");
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  const handleExecute = async (guardian: RecoveryGuardianSigner): Promise<void> => {
+    if (!recovery) return;
+    setExecutingWith(guardian.type);
+    try {
+      await recovery.executeRecovery({ accountAddress: accountAddress as Address, chainId, guardian });
+      if (isGuardianWalletConnected) disconnect();
+      toast.success("Account recovered. Connect with your new passkey.");
+      navigate(ROUTES.home);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Recovery failed");
+    } finally {
+      setExecutingWith(undefined);
+    }
+  };
+
+  const handleCancel = async (): Promise<void> => {
+    if (!recovery) return;
+    await recovery.cancelRecovery(accountAddress as Address, chainId);
+    setPending(undefined);
+  };
+
+  return (
+    <>
+      <CardHeader className="text-center space-y-2">
+        <div className="mx-auto w-12 h-12 bg-orange-100 rounded-full flex items-center justify-center mb-2">
+          <LifeBuoy className="h-6 w-6 text-orange-600" />
+        </div>
+        <CardTitle className="text-2xl font-bold">Recover Account</CardTitle>
+        <CardDescription>
+          Lost your passkey? Create a new one, then recover with a backup passkey or have your guardian approve it.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="recover-account">Smart account address</Label>
+          <Input
+            id="recover-account"
+            placeholder="0x..."
+            value={accountAddress}
+            onChange={(e) => setAccountAddress(e.target.value)}
+            disabled={!!pending}
+            className="font-mono text-sm"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Network</Label>
+          <Select value={String(chainId)} onValueChange={(value) => setChainId(Number(value))} disabled={!!pending}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {chains.map((chain) => (
+                <SelectItem key={chain.id} value={String(chain.id)}>
+                  {chain.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!pending ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="recover-passkey-name">New passkey name</Label>
+              <Input
+                id="recover-passkey-name"
+                placeholder="e.g. My new phone"
+                value={passkeyName}
+                onChange={(e) => setPasskeyName(e.target.value)}
+              />
+            </div>
+
+            <Button
+              onClick={handleRequest}
+              disabled={!recovery || !isValidAccount || !passkeyName.trim() || isRequesting}
+              className="w-full"
+            >
+              {isRequesting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Fingerprint className="mr-2 h-4 w-4" />
+              )}
+              Create Passkey & Request Recovery
+            </Button>
+          </>
+        ) : (
+          <div className="space-y-3">
+            <Alert>
+              <Clock className="h-4 w-4" />
+              <AlertDescription>
+                {!isApproved
+                  ? pending.approvals
+                    ? `${pending.approvals.count} of ${pending.approvals.threshold} guardians approved "${pending.passkeyName}". Ask another guardian to approve it, or use a backup passkey.`
+                    : `New passkey "${pending.passkeyName}" was created. Ask your guardians to approve it, or use a backup passkey.`
+                  : isExecutable
+                    ? `Your guardians approved "${pending.passkeyName}". The recovery can be completed now.`
+                    : `Your guardians approved "${pending.passkeyName}". The recovery can be completed after ${new Date(pending.executableAt).toLocaleString()}.`}
+              </AlertDescription>
+            </Alert>
+
+            {isGuardianWalletConnected && !isApproved ? (
+              <>
+                <Button
+                  onClick={handleApprove}
+                  disabled={!walletClient || isApproving || !!executingWith}
+                  className="w-full"
+                >
+                  {isApproving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                  )}
+                  Approve with Guardian Wallet
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => disconnect()}
+                  disabled={isApproving || !!executingWith}
+                  className="w-full"
+                >
+                  <Wallet className="mr-2 h-4 w-4" />
+                  Use Another Guardian Wallet
+                </Button>
+              </>
+            ) : isGuardianWalletConnected ? (
+              <Button
+                onClick={() => walletClient && handleExecute({ type: "address", signer: walletClient })}
+                disabled={!isExecutable || !walletClient || !!executingWith}
+                className="w-full"
+              >
+                {executingWith === "address" ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Wallet className="mr-2 h-4 w-4" />
+                )}
+                Complete with Guardian Wallet
+              </Button>
+            ) : (
+              guardianConnectors.map((connector) => (
+                <Button
+                  key={connector.uid}
+                  variant="outline"
+                  onClick={() => connect({ connector })}
+                  disabled={isConnecting}
+                  className="w-full"
+                >
+                  <Wallet className="mr-2 h-4 w-4" />
+                  Connect Guardian Wallet ({connector.name})
+                </Button>
+              ))
+            )}
+
+            <Button
+              variant="outline"
+              onClick={() => handleExecute({ type: "passkey" })}
+              disabled={isApproving || !!executingWith}
+              className="w-full"
+            >
+              {executingWith === "passkey" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Fingerprint className="mr-2 h-4 w-4" />
+              )}
+              Recover with Backup Passkey
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={handleCancel}
+              disabled={isApproving || !!executingWith}
+              className="w-full text-red-600"
+            >
+              <XCircle className="mr-2 h-4 w-4" />
+              Cancel Recovery
+            </Button>
+          </div>
+        )}
+
+        <Button variant="link" asChild className="w-full">
+          <Link to={ROUTES.connect}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to sign in
+          </Link>
+        </Button>
+      </CardContent>
+    </>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { isAddress, type Address } from "viem";
+import { toast } from "sonner";
+import { CheckCircle, Copy, LifeBuoy, Loader2, Plus, ShieldOff, X } from "lucide-react";
+import { useRecoverySettings } from "@/hooks/use-recovery-settings";
+import { buildRecoveryLink } from "@/utils/recovery-link";
+import { AddressName } from "@/components/address-name";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const DELAYS = [
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "3 days", seconds: 3 * 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+] as const;
+
+export const RecoverySettingsCard = () => {
+  const { settings, isLoading, setGuardians, removeGuardians, isSaving, isRemoving } = useRecoverySettings();
+  const [guardians, setGuardianInputs] = useState<string[]>([""]);
+  const [threshold, setThreshold] = useState("1");
+  const [delay, setDelay] = useState<string>(String(DELAYS[1].seconds));
+  const [copied, setCopied] = useState(false);
+
+  const recoveryLink = settings ? buildRecoveryLink(settings) : undefined;
+  const filledGuardians = guardians.filter((guardian) => guardian !== "");
+  const guardianError = filledGuardians.some((guardian) => !isAddress(guardian))
+    ? "Enter valid addresses"
+    : new Set(filledGuardians.map((guardian) => guardian.toLowerCase())).size !== filledGuardians.length
+      ? "Each guardian must be a different address"
+      : undefined;
+  const areGuardiansValid = !guardianError && guardians.every((guardian) => isAddress(guardian));
+
+  const updateGuardian = (index: number, value: string): void =>
+    setGuardianInputs((current) => current.map((guardian, i) => (i === index ? value : guardian)));
+
+  const removeGuardianInput = (index: number): void => {
+    setGuardianInputs((current) => current.filter((_, i) => i !== index));
+    // Keep the threshold reachable with one guardian fewer
+    setThreshold((current) => String(Math.min(Number(current), guardians.length - 1)));
+  };
+
+  const handleSave = async (): Promise<void> => {
+    try {
+      await setGuardians({
+        guardians: guardians as Address[],
+        threshold: Number(threshold),
+        delaySeconds: Number(delay),
+      });
+      setGuardianInputs([""]);
+      setThreshold("1");
+      toast.success("Recovery guardians saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save recovery guardians");
+    }
+  };
+
+  const handleRemove = async (): Promise<void> => {
+    try {
+      await removeGuardians();
+      toast.success("Recovery guardians removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove recovery guardians");
+    }
+  };
+
+  const copyRecoveryLink = async (): Promise<void> => {
+    if (!recoveryLink) return;
+    await navigator.clipboard.writeText(recoveryLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <LifeBuoy className="h-5 w-5" />
+          Recovery
+        </CardTitle>
+        <CardDescription>
+          Guardian wallets can move the account to a new passkey once enough of them approve and a waiting period has
+          passed; your backup passkeys can do so right away.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : settings ? (
+          <div className="space-y-3">
+            <div className="bg-muted/50 rounded-lg p-4 space-y-2 text-sm">
+              {settings.guardians.map((guardian, index) => (
+                <div key={guardian} className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Guardian {index + 1}</span>
+                  <AddressName address={guardian} className="font-mono" />
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Approvals required</span>
+                <span>
+                  {settings.threshold} of {settings.guardians.length}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Waiting period</span>
+                <span>
+                  {DELAYS.find((option) => option.seconds === settings.delaySeconds)?.label ??
+                    `${settings.delaySeconds}s`}
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Recovery link</Label>
+              <div className="flex gap-2">
+                <Input readOnly value={recoveryLink} className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={copyRecoveryLink}>
+                  {copied ? <CheckCircle className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Keep this link somewhere safe; it opens the recovery page. The waiting period is enforced on chain:
+                remove the guardians during it to stop a recovery you did not ask for.
+              </p>
+            </div>
+
+            <Button
+              onClick={handleRemove}
+              disabled={isRemoving}
+              variant="outline"
+              className="w-full text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300"
+            >
+              {isRemoving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldOff className="mr-2 h-4 w-4" />}
+              Remove Guardians
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Guardian addresses</Label>
+              {guardians.map((guardian, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    aria-label={`Guardian ${index + 1}`}
+                    placeholder="0x..."
+                    value={guardian}
+                    onChange={(e) => updateGuardian(index, e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                  {guardians.length > 1 && (
+                    <Button variant="outline" size="icon" onClick={() => removeGuardianInput(index)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {guardianError && <p className="text-sm text-destructive">{guardianError}</p>}
+              <Button variant="outline" size="sm" onClick={() => setGuardianInputs((current) => [...current, ""])}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Guardian
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Approvals required</Label>
+              <Select value={threshold} onValueChange={setThreshold}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {guardians.map((_, index) => (
+                    <SelectItem key={index} value={String(index + 1)}>
+                      {index + 1} of {guardians.length}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Waiting period</Label>
+              <Select value={delay} onValueChange={setDelay}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELAYS.map((option) => (
+                    <SelectItem key={option.seconds} value={String(option.seconds)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button onClick={handleSave} disabled={!areGuardiansValid || isSaving} className="w-full">
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LifeBuoy className="mr-2 h-4 w-4" />}
+              Set Guardians
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
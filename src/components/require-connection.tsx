@@ -0,0 +1,29 @@
+import { Navigate, Outlet, useLocation } from "react-router";
+import { useAccount } from "wagmi";
+import { Loader2 } from "lucide-react";
+import { CardContent } from "@/components/ui/card";
+import { ROUTES, type ConnectRedirectState } from "@/utils/routes";
+
+/**
+ * Renders the nested routes only while a wallet is connected. Otherwise redirects to the connect page,
+ * remembering the requested location so the user lands there once connected.
+ */
+export function RequireConnection() {
+  const { status } = useAccount();
+  const location = useLocation();
+
+  if (status === "connecting" || status === "reconnecting") {
+    return (
+      <CardContent className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </CardContent>
+    );
+  }
+
+  if (status === "disconnected") {
+    const state: ConnectRedirectState = { from: { pathname: location.pathname, search: location.search } };
+    return <Navigate to={ROUTES.connect} state={state} replace />;
+  }
+
+  return <Outlet />;
+}
@@ -1,14 +1,15 @@
-import { useWriteContract, useWaitForTransactionReceipt, useAccount, useReadContract, useChainId } from "wagmi";
+import { useWriteContract, useAccount, useReadContract, useChainId } from "wagmi";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Gift, Loader2, CheckCircle, AlertCircle, ExternalLink, Copy } from "lucide-react";
 import { USDT_ABI } from "@/constants";
 import { erc20Abi, parseUnits, encodeFunctionData } from "viem";
-import { sepolia, polygonAmoy } from "wagmi/chains";
 import { useGasEstimation } from "@/hooks/use-gas-estimation";
 import { GasEstimationDisplay } from "@/components/gas-estimation-display";
+import { useUserOperationStatus } from "@/hooks/use-user-operation-status";
 import { openExplorerLink } from "@/utils/explorer-links";
+import { getRewardsToken } from "@/utils/token-registry";
 import { useState } from "react";
 
 interface RewardsModalProps {
@@ -16,19 +17,13 @@ interface RewardsModalProps {
   readonly onClose: () => void;
 }
 
-// Network-specific token contract addresses
-const NETWORK_TOKEN_CONTRACTS = {
-  [sepolia.id]: "0x118f6c0090ffd227cbefe1c6d8a803198c4422f0" as const, // FUSDT on Sepolia
-  [polygonAmoy.id]: "0x783904e158200811A97A73FD58DcE024c44e125B" as const, // Token on Polygon Amoy
-} as const;
-
 export function RewardsModal({ isOpen, onClose }: RewardsModalProps) {
   const { address } = useAccount();
   const chainId = useChainId();
   const [copied, setCopied] = useState(false);
 
   // Get the token contract for the current network
-  const tokenContract = NETWORK_TOKEN_CONTRACTS[chainId as keyof typeof NETWORK_TOKEN_CONTRACTS];
+  const tokenContract = getRewardsToken(chainId)?.address;
 
   // Read the token decimals from the contract
   const { data: tokenDecimals } = useReadContract({
@@ -60,9 +55,13 @@ export function RewardsModal({ isOpen, onClose }: RewardsModalProps) {
 
   const { writeContract, data: hash, error, isPending } = useWriteContract();
 
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
+  const {
+    isPending: isConfirming,
+    isSuccess: isConfirmed,
+    isFailed,
+    error: operationError,
+    transactionHash,
+  } = useUserOperationStatus(hash);
 
   const handleMint = async (): Promise<void> => {
     if (!address) {
@@ -141,11 +140,11 @@ export function RewardsModal({ isOpen, onClose }: RewardsModalProps) {
   };
 
   const getStatusContent = () => {
-    if (error) {
+    if (error || isFailed) {
       return {
         icon: <AlertCircle className="h-8 w-8 text-red-500" />,
         title: "Minting Failed",
-        description: "There was an error minting your tokens. Please try again.",
+        description: operationError || "There was an error minting your tokens. Please try again.",
         buttonText: "Try Again",
         buttonVariant: "destructive" as const,
       };
@@ -196,7 +195,7 @@ export function RewardsModal({ isOpen, onClose }: RewardsModalProps) {
       buttonText: tokenDecimals ? "Mint 100 Tokens" : "Loading...",
       buttonVariant: "default" as const,
       onButtonClick: handleMint,
-      disabled: !tokenDecimals,
+      disabled: !tokenDecimals || !!gasEstimation.custom.error,
     };
   };
 
@@ -247,6 +246,8 @@ export function RewardsModal({ isOpen, onClose }: RewardsModalProps) {
               fast={gasEstimation.fast}
               selectedOption={gasEstimation.selectedOption}
               onOptionChange={gasEstimation.setSelectedOption}
+              custom={gasEstimation.custom}
+              userOperation={gasEstimation.userOperation}
               isLoading={gasEstimation.isLoading}
               error={gasEstimation.error}
               variant="default"
@@ -296,14 +297,14 @@ export function RewardsModal({ isOpen, onClose }: RewardsModalProps) {
             {status.buttonText}
           </Button>
 
-          {!isConfirmed && !error && (
+          {!isConfirmed && !error && !isFailed && (
             <Button variant="ghost" onClick={handleClose} className="w-full">
               Cancel
             </Button>
           )}
         </div>
 
-        {hash && (
+        {transactionHash && (
           <div className="mt-4 p-3 bg-muted/30 rounded-lg">
             <div className="flex items-center justify-between mb-2">
               <p className="text-xs text-muted-foreground">Transaction Hash:</p>
@@ -311,17 +312,22 @@ export function RewardsModal({ isOpen, onClose }: RewardsModalProps) {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => openExplorerLink(chainId, "tx", hash)}
+                  onClick={() => openExplorerLink(chainId, "tx", transactionHash)}
                   className="h-6 w-6 p-0"
                 >
                   <ExternalLink className="h-3 w-3" />
                 </Button>
-                <Button variant="ghost" size="sm" onClick={() => copyToClipboard(hash)} className="h-6 w-6 p-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => copyToClipboard(transactionHash)}
+                  className="h-6 w-6 p-0"
+                >
                   {copied ? <CheckCircle className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
                 </Button>
               </div>
             </div>
-            <p className="font-mono text-xs break-all">{hash}</p>
+            <p className="font-mono text-xs break-all">{transactionHash}</p>
           </div>
         )}
       </DialogContent>
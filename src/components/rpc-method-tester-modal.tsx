@@ -5,11 +5,11 @@ import {
   useSignMessage,
   useSignTypedData,
   useSendTransaction,
-  useWaitForTransactionReceipt,
   useBalance,
   useReadContract,
   useChainId,
   useConfig,
+  usePublicClient,
 } from "wagmi";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 
@@ -32,13 +32,24 @@ import {
   Info,
   Send,
   ExternalLink,
+  ShieldCheck,
 } from "lucide-react";
-import { erc20Abi, encodeFunctionData, parseUnits } from "viem";
+import { erc20Abi, encodeFunctionData, isAddress, parseUnits, zeroAddress } from "viem";
+import type { Address, Hex, TypedDataDefinition } from "viem";
 import { sepolia, polygonAmoy } from "wagmi/chains";
 import { useGasEstimation } from "@/hooks/use-gas-estimation";
+import { useResolveName } from "@/hooks/use-name-resolution";
 import { GasEstimationDisplay } from "@/components/gas-estimation-display";
+import { useUserOperationStatus } from "@/hooks/use-user-operation-status";
 import { toast } from "sonner";
 import { openExplorerLink as utilOpenExplorerLink } from "@/utils/explorer-links";
+import { getBuiltInTokens, getRewardsToken } from "@/utils/token-registry";
+import {
+  verifySmartAccountSignature,
+  type SignatureVerificationResult,
+  type SignedPayload,
+} from "@/utils/verify-smart-account-signature";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface RpcMethodTesterModalProps {
   readonly isOpen: boolean;
@@ -68,9 +79,19 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
   const [testMessage, setTestMessage] = useState("Hello, this is a test message for personal_sign!");
   const [testAmount, setTestAmount] = useState("1");
   const [testToAddress, setTestToAddress] = useState("");
+  // The recipient may be a name; an empty field sends to self
+  const {
+    name: testToName,
+    address: resolvedToAddress,
+    isLoading: isResolvingTo,
+    isUnresolved: isTestToUnresolved,
+  } = useResolveName(testToAddress);
+  const testRecipient = testToAddress.trim() ? resolvedToAddress : address;
   const [testType, setTestType] = useState<"eth" | "fusdt">("fusdt");
-  const [fusdtAddress] = useState("0x118f6c0090ffd227cbefe1c6d8a803198c4422f0"); // FUSDT (Rewards token) on Sepolia
-  const [erc20Address, setErc20Address] = useState("0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238"); // USDC on Sepolia
+  const fusdtAddress: string = getRewardsToken(chainId)?.address ?? zeroAddress; // FUSDT (Rewards token)
+  const [erc20Address, setErc20Address] = useState(
+    () => getBuiltInTokens(chainId).find((token) => token.symbol === "USDC")?.address ?? "",
+  ); // USDC from the token registry
 
   // Loading states for better user feedback
   const [isTestingConnection, setIsTestingConnection] = useState(false);
@@ -78,11 +99,25 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
   const [isTestingPersonalSign, setIsTestingPersonalSign] = useState(false);
   const [isTestingTypedData, setIsTestingTypedData] = useState(false);
 
+  // Signature verification
+  const publicClient = usePublicClient();
+  const [verifyType, setVerifyType] = useState<SignedPayload["type"]>("message");
+  const [verifyPayload, setVerifyPayload] = useState("");
+  const [verifySignature, setVerifySignature] = useState("");
+  const [verifyAddress, setVerifyAddress] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verification, setVerification] = useState<SignatureVerificationResult>();
+
   // Hooks for different operations
   const { signMessage, isPending: isSigningMessage } = useSignMessage();
   const { signTypedData, isPending: isSigningTypedData } = useSignTypedData();
   const { sendTransaction, isPending: isSendingTx, data: txHash } = useSendTransaction();
-  const { isLoading: isConfirmingTx, isSuccess: isTxConfirmed } = useWaitForTransactionReceipt({ hash: txHash });
+  const {
+    isPending: isConfirmingTx,
+    isSuccess: isTxConfirmed,
+    status: txStatus,
+    transactionHash: confirmedTxHash,
+  } = useUserOperationStatus(txHash);
 
   // Read operations
   const {
@@ -260,10 +295,8 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
 
   // Gas estimation for transactions
   const transactionData = (() => {
-    if (!testAmount || (!testToAddress && !address)) return undefined;
-
-    const to = testToAddress || address;
-    if (!to) return undefined;
+    const to = testRecipient;
+    if (!testAmount || !to) return undefined;
 
     try {
       if (testType === "eth") {
@@ -383,10 +416,11 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
   };
 
   const testSendTransaction = async (): Promise<void> => {
-    const to = testToAddress || address; // Send to self if no address specified
+    const to = testRecipient;
 
     if (!to) {
-      addTestResult("eth_sendTransaction", "error", undefined, "No destination address");
+      const reason = testToName ? `Could not resolve ${testToName}` : "No destination address";
+      addTestResult("eth_sendTransaction", "error", undefined, reason);
       return;
     }
 
@@ -578,6 +612,47 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
     }
   };
 
+  // Fill the verification form from the most recent successful signing test
+  const loadLastSignature = (): void => {
+    const last = testResults.find(
+      (result) =>
+        (result.method === "personal_sign" || result.method === "eth_signTypedData_v4") && result.status === "success",
+    );
+    if (!last) return;
+
+    const signed = last.result as { message?: string; typedData?: unknown; signature: Hex; signer: Address };
+    setVerifyType(last.method === "personal_sign" ? "message" : "typedData");
+    setVerifyPayload(last.method === "personal_sign" ? (signed.message ?? "") : safeStringify(signed.typedData));
+    setVerifySignature(signed.signature);
+    setVerifyAddress(signed.signer);
+    setVerification(undefined);
+  };
+
+  const testVerifySignature = async (): Promise<void> => {
+    if (!publicClient) return;
+    try {
+      setIsVerifying(true);
+      setVerification(undefined);
+      addTestResult("verifySignature", "pending");
+      const payload: SignedPayload =
+        verifyType === "message"
+          ? { type: "message", message: verifyPayload }
+          : { type: "typedData", typedData: JSON.parse(verifyPayload) as TypedDataDefinition };
+      const result = await verifySmartAccountSignature(publicClient, {
+        address: (verifyAddress || address) as Address,
+        signature: verifySignature.trim() as Hex,
+        payload,
+      });
+      setVerification(result);
+      addTestResult("verifySignature", "success", result);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      addTestResult("verifySignature", "error", undefined, errorMessage);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
   const clearResults = (): void => {
     setTestResults([]);
   };
@@ -766,12 +841,20 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
                         id="to-address"
                         value={testToAddress}
                         onChange={(e) => setTestToAddress(e.target.value)}
-                        placeholder="0x... (defaults to self)"
+                        placeholder="0x... or name.eth (defaults to self)"
                         className="font-mono text-sm"
                       />
-                      <p className="text-xs text-muted-foreground">
-                        Recipient address (leave empty to send to yourself)
-                      </p>
+                      {testToName && isResolvingTo ? (
+                        <p className="text-xs text-muted-foreground">Resolving {testToName}...</p>
+                      ) : testToName && isTestToUnresolved ? (
+                        <p className="text-xs text-destructive">Could not resolve {testToName}</p>
+                      ) : testToName && resolvedToAddress ? (
+                        <p className="text-xs font-mono text-muted-foreground">{resolvedToAddress}</p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          Recipient address or name (leave empty to send to yourself)
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -783,6 +866,8 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
                       fast={gasEstimation.fast}
                       selectedOption={gasEstimation.selectedOption}
                       onOptionChange={gasEstimation.setSelectedOption}
+                      custom={gasEstimation.custom}
+                      userOperation={gasEstimation.userOperation}
                       isLoading={gasEstimation.isLoading}
                       error={gasEstimation.error}
                       variant="default"
@@ -871,7 +956,13 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
 
                   <Button
                     onClick={testSendTransaction}
-                    disabled={isSendingTx || isConfirmingTx || !testAmount || !gasEstimation.selected}
+                    disabled={
+                      isSendingTx ||
+                      isConfirmingTx ||
+                      !testAmount ||
+                      !gasEstimation.selected ||
+                      !!gasEstimation.custom.error
+                    }
                     className="w-full h-12 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-medium"
                   >
                     {isSendingTx || isConfirmingTx ? (
@@ -901,22 +992,24 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
                           Status:{" "}
                           {isSendingTx
                             ? `Waiting for ${getWalletName()} approval`
-                            : "Transaction confirmed, waiting for blockchain"}
+                            : txStatus === "bundled"
+                              ? "Bundled, waiting for blockchain"
+                              : "Submitted, waiting for bundler"}
                         </div>
                         <div>Type: {testType.toUpperCase()} transfer</div>
                         <div>
                           Amount: {testAmount} {testType === "fusdt" ? "FUSDT" : "ETH"}
                         </div>
                         <div>To: {testToAddress || "Self"}</div>
-                        {txHash && (
+                        {confirmedTxHash && (
                           <div className="flex items-center justify-between">
                             <span className="font-mono text-xs break-all">
-                              Hash: {txHash.slice(0, 10)}...{txHash.slice(-8)}
+                              Hash: {confirmedTxHash.slice(0, 10)}...{confirmedTxHash.slice(-8)}
                             </span>
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => utilOpenExplorerLink(chainId, "tx", txHash)}
+                              onClick={() => utilOpenExplorerLink(chainId, "tx", confirmedTxHash)}
                               className="h-5 w-5 p-0 text-blue-600 hover:text-blue-800"
                             >
                               <ExternalLink className="h-3 w-3" />
@@ -935,7 +1028,7 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => txHash && utilOpenExplorerLink(chainId, "tx", txHash)}
+                            onClick={() => confirmedTxHash && utilOpenExplorerLink(chainId, "tx", confirmedTxHash)}
                             className="h-6 text-accent-foreground hover:text-accent-foreground/80"
                           >
                             <ExternalLink className="h-3 w-3 mr-1" />
@@ -944,7 +1037,7 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => copyToClipboard(txHash || "")}
+                            onClick={() => copyToClipboard(confirmedTxHash || "")}
                             className="h-6 text-accent-foreground hover:text-accent-foreground/80"
                           >
                             <Copy className="h-3 w-3 mr-1" />
@@ -1044,6 +1137,117 @@ export const RpcMethodTesterModal = ({ isOpen, onClose }: RpcMethodTesterModalPr
                       </AlertDescription>
                     </Alert>
                   )}
+
+                  <Separator />
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <ShieldCheck className="h-4 w-4" />
+                        <h3 className="text-sm font-medium">Verify Signature</h3>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={loadLastSignature}
+                        disabled={
+                          !testResults.some(
+                            (result) =>
+                              (result.method === "personal_sign" || result.method === "eth_signTypedData_v4") &&
+                              result.status === "success",
+                          )
+                        }
+                      >
+                        Use last signature
+                      </Button>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="verify-address" className="text-sm font-medium">
+                          Signer
+                        </Label>
+                        <Input
+                          id="verify-address"
+                          value={verifyAddress}
+                          onChange={(e) => setVerifyAddress(e.target.value)}
+                          placeholder={address}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Payload</Label>
+                        <Select
+                          value={verifyType}
+                          onValueChange={(value) => setVerifyType(value as SignedPayload["type"])}
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="message">Message (personal_sign)</SelectItem>
+                            <SelectItem value="typedData">Typed data (JSON)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <Textarea
+                      value={verifyPayload}
+                      onChange={(e) => setVerifyPayload(e.target.value)}
+                      placeholder={verifyType === "message" ? "Signed message" : '{ "domain": ..., "types": ... }'}
+                      rows={3}
+                      className="resize-none font-mono text-xs"
+                    />
+                    <Textarea
+                      value={verifySignature}
+                      onChange={(e) => setVerifySignature(e.target.value)}
+                      placeholder="0x... signature"
+                      rows={2}
+                      className="resize-none font-mono text-xs"
+                    />
+
+                    <Button
+                      onClick={testVerifySignature}
+                      disabled={
+                        isVerifying ||
+                        !verifyPayload.trim() ||
+                        !verifySignature.trim() ||
+                        (!!verifyAddress && !isAddress(verifyAddress))
+                      }
+                      variant="outline"
+                      className="w-full"
+                    >
+                      {isVerifying ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <ShieldCheck className="h-4 w-4 mr-2" />
+                      )}
+                      Verify
+                    </Button>
+
+                    {verification && (
+                      <Alert
+                        className={verification.isValid ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"}
+                      >
+                        {verification.isValid ? (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-red-600" />
+                        )}
+                        <AlertDescription className="flex items-center gap-2">
+                          {verification.isValid ? "Valid signature" : "Invalid signature"}
+                          <Badge variant="secondary" className="text-xs">
+                            {verification.path === "eoa"
+                              ? "EOA (ecrecover)"
+                              : verification.path === "erc1271"
+                                ? "ERC-1271"
+                                : "ERC-6492"}
+                          </Badge>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                  </div>
                 </div>
               </TabsContent>
 
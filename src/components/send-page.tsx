@@ -0,0 +1,457 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router";
+import { useAccount, useChainId, useConfig, useSendTransaction, useSwitchChain } from "wagmi";
+import { encodeFunctionData, erc20Abi, formatUnits, isAddress, isAddressEqual, numberToHex } from "viem";
+import type { Address, Hash } from "viem";
+import { toast } from "sonner";
+import { AlertCircle, ArrowUpRight, CheckCircle, ExternalLink, Loader2, Network, Send } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GasEstimationDisplay } from "@/components/gas-estimation-display";
+import { AddressName } from "@/components/address-name";
+import { useTokenBalances } from "@/hooks/use-token-balances";
+import { useGasEstimation } from "@/hooks/use-gas-estimation";
+import { useUserOperationStatus } from "@/hooks/use-user-operation-status";
+import { useSendHistory } from "@/hooks/use-send-history";
+import { useResolveName } from "@/hooks/use-name-resolution";
+import { isFinalUserOperationStatus } from "@/connectors/passkeys-user-operation-store";
+import { openExplorerLink } from "@/utils/explorer-links";
+import { formatAddress } from "@/utils/format-address";
+import { parseAmount } from "@/utils/parse-amount";
+import { parsePaymentRequest, type PaymentRequest } from "@/utils/payment-request";
+
+const NATIVE_TOKEN = "native";
+const RECENT_TRANSFERS_SHOWN = 5;
+
+export function SendPage() {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const config = useConfig();
+  const nativeCurrency = config.chains.find((chain) => chain.id === chainId)?.nativeCurrency ?? {
+    symbol: "ETH",
+    decimals: 18,
+  };
+
+  const { ethBalance, tokenBalances, isLoading: isLoadingBalances } = useTokenBalances();
+  const { history, addRecord, updateRecord } = useSendHistory();
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain();
+  const [searchParams] = useSearchParams();
+  const [tokenKey, setTokenKey] = useState(NATIVE_TOKEN);
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [sentHash, setSentHash] = useState<Hash>();
+  // A payment request from the `request` query parameter or pasted into the recipient field
+  const [pendingRequest, setPendingRequest] = useState<PaymentRequest | undefined>(() => {
+    const uri = searchParams.get("request");
+    return uri ? parsePaymentRequest(uri) : undefined;
+  });
+
+  // Falls back to the native currency when the selected token is not on this network
+  const token = tokenBalances.find(
+    (tokenBalance) => tokenKey !== NATIVE_TOKEN && isAddressEqual(tokenBalance.address, tokenKey as Address),
+  );
+  const symbol = token?.symbol ?? nativeCurrency.symbol;
+  const decimals = token?.decimals ?? nativeCurrency.decimals;
+  const balance = token?.balance ?? ethBalance.balance;
+
+  // Resolve the recipient, which may be an ENS name
+  const trimmedRecipient = recipient.trim();
+  const {
+    name: ensName,
+    address: recipientAddress,
+    isLoading: isResolvingEns,
+    isUnresolved,
+  } = useResolveName(trimmedRecipient);
+
+  const parsedAmount = parseAmount(amount.trim(), decimals);
+
+  // Estimate with the entered values, or a zero transfer to self until they are filled in, so "max" knows the gas cost
+  const estimationTarget = recipientAddress ?? address;
+  const estimationAmount = parsedAmount ?? 0n;
+  const transaction = estimationTarget
+    ? token
+      ? {
+          to: token.address,
+          value: 0n,
+          data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: "transfer",
+            args: [estimationTarget, estimationAmount],
+          }),
+        }
+      : { to: estimationTarget, value: estimationAmount, data: undefined }
+    : undefined;
+
+  const gasEstimation = useGasEstimation({
+    to: transaction?.to,
+    value: transaction?.value,
+    data: transaction?.data,
+    enabled: !!transaction && !sentHash,
+  });
+  // A paymaster pays the gas, so none of the balance has to be kept back for it
+  const gasCost = gasEstimation.userOperation?.hasPaymaster ? 0n : gasEstimation.selected.totalCostWei;
+
+  const { sendTransactionAsync, isPending: isSending } = useSendTransaction();
+  const {
+    status,
+    transactionHash,
+    error: operationError,
+    isPending: isConfirming,
+    isSuccess: isConfirmed,
+    isFailed,
+  } = useUserOperationStatus(sentHash);
+
+  // Record the outcome once the transfer settles
+  useEffect(() => {
+    if (!sentHash || !status || !isFinalUserOperationStatus(status)) return;
+    updateRecord({ hash: sentHash, status, transactionHash }).catch((error) =>
+      console.warn("Failed to update send history:", error),
+    );
+  }, [sentHash, status, transactionHash, updateRecord]);
+
+  // Fill in the form once the request's network is selected and its token's decimals are known
+  const requestChain = pendingRequest?.chainId
+    ? config.chains.find((chain) => chain.id === pendingRequest.chainId)
+    : undefined;
+  const isRequestOnOtherChain = pendingRequest?.chainId !== undefined && pendingRequest.chainId !== chainId;
+  useEffect(() => {
+    if (!pendingRequest || isRequestOnOtherChain || isLoadingBalances) return;
+
+    const requestedToken = pendingRequest.token
+      ? tokenBalances.find((tokenBalance) => isAddressEqual(tokenBalance.address, pendingRequest.token!))
+      : undefined;
+    setPendingRequest(undefined);
+    if (pendingRequest.token && !requestedToken) {
+      toast.error(`Add token ${formatAddress(pendingRequest.token)} to your list to pay this request`);
+      return;
+    }
+
+    setRecipient(pendingRequest.recipient);
+    setTokenKey(requestedToken?.address ?? NATIVE_TOKEN);
+    setAmount(
+      pendingRequest.amount !== undefined
+        ? formatUnits(pendingRequest.amount, requestedToken?.decimals ?? nativeCurrency.decimals)
+        : "",
+    );
+  }, [pendingRequest, isRequestOnOtherChain, isLoadingBalances, tokenBalances, nativeCurrency.decimals]);
+
+  const handleRecipientChange = (value: string): void => {
+    if (!value.trim().toLowerCase().startsWith("ethereum:")) {
+      setRecipient(value);
+      return;
+    }
+
+    const request = parsePaymentRequest(value);
+    if (request) setPendingRequest(request);
+    else toast.error("Unsupported payment request");
+  };
+
+  const recipientError = !trimmedRecipient
+    ? undefined
+    : ensName
+      ? isUnresolved
+        ? `Could not resolve ${ensName}`
+        : undefined
+      : !isAddress(trimmedRecipient)
+        ? "Enter a valid address or ENS name"
+        : undefined;
+
+  const amountError = !amount.trim()
+    ? undefined
+    : parsedAmount === undefined
+      ? "Enter a valid amount"
+      : parsedAmount === 0n
+        ? "Amount must be greater than zero"
+        : parsedAmount > balance
+          ? `Insufficient ${symbol} balance`
+          : (token ? gasCost : parsedAmount + gasCost) > ethBalance.balance
+            ? token
+              ? `Not enough ${nativeCurrency.symbol} to pay for gas`
+              : `Not enough ${nativeCurrency.symbol} to cover the amount plus gas`
+            : undefined;
+
+  const canSend =
+    !!address &&
+    !!recipientAddress &&
+    !!parsedAmount &&
+    !recipientError &&
+    !amountError &&
+    !gasEstimation.isLoading &&
+    !gasEstimation.error &&
+    !gasEstimation.custom.error;
+
+  const handleMax = (): void => {
+    const maxAmount = token ? balance : balance > gasCost ? balance - gasCost : 0n;
+    setAmount(formatUnits(maxAmount, decimals));
+  };
+
+  const handleSend = async (): Promise<void> => {
+    if (!canSend || !address || !recipientAddress || !parsedAmount) return;
+
+    const gasParams = gasEstimation.selected.maxFeePerGas
+      ? {
+          gas: gasEstimation.selected.gasLimit,
+          maxFeePerGas: gasEstimation.selected.maxFeePerGas,
+          maxPriorityFeePerGas: gasEstimation.selected.maxPriorityFeePerGas,
+        }
+      : {
+          gas: gasEstimation.selected.gasLimit,
+          gasPrice: gasEstimation.selected.gasPrice,
+        };
+
+    let hash: Hash;
+    try {
+      hash = await sendTransactionAsync(
+        token
+          ? {
+              to: token.address,
+              data: encodeFunctionData({
+                abi: erc20Abi,
+                functionName: "transfer",
+                args: [recipientAddress, parsedAmount],
+              }),
+              ...gasParams,
+            }
+          : { to: recipientAddress, value: parsedAmount, ...gasParams },
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send transaction");
+      return;
+    }
+    setSentHash(hash);
+
+    // The transfer is already on its way, so failing to record it must not read as a failed send
+    try {
+      await addRecord({
+        hash,
+        chainId,
+        from: address,
+        to: recipientAddress,
+        recipientName: ensName,
+        tokenAddress: token?.address,
+        symbol,
+        amount: amount.trim(),
+        value: numberToHex(parsedAmount),
+        status: "submitted",
+        sentAt: Date.now(),
+      });
+    } catch (error) {
+      console.warn("Failed to add send history record:", error);
+      toast.warning("Transfer sent, but it could not be saved to your history");
+    }
+  };
+
+  const reset = (): void => {
+    setRecipient("");
+    setAmount("");
+    setSentHash(undefined);
+  };
+
+  const recentTransfers = history.filter((record) => record.chainId === chainId).slice(0, RECENT_TRANSFERS_SHOWN);
+
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Send className="h-5 w-5" />
+          Send
+        </CardTitle>
+        <CardDescription>Transfer {nativeCurrency.symbol} or any token in your list.</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {sentHash ? (
+          <div className="space-y-4">
+            <div className="flex flex-col items-center text-center space-y-2 py-2">
+              {isConfirmed ? (
+                <CheckCircle className="h-8 w-8 text-green-500" />
+              ) : isFailed ? (
+                <AlertCircle className="h-8 w-8 text-red-500" />
+              ) : (
+                <Loader2 className="h-8 w-8 text-blue-500 animate-spin" />
+              )}
+              <p className="font-medium">
+                {isConfirmed ? "Transfer Complete" : isFailed ? "Transfer Failed" : "Processing Transfer..."}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {amount.trim()} {symbol} to {formatAddress(recipientAddress ?? "", ensName)}
+              </p>
+              {isFailed && operationError && <p className="text-xs text-destructive">{operationError}</p>}
+            </div>
+
+            {transactionHash && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => openExplorerLink(chainId, "tx", transactionHash)}
+              >
+                <ExternalLink className="mr-2 h-4 w-4" />
+                View Transaction
+              </Button>
+            )}
+
+            <Button className="w-full" onClick={reset} disabled={isConfirming}>
+              Send Another
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {pendingRequest && isRequestOnOtherChain && (
+              <Alert>
+                <Network className="h-4 w-4" />
+                <AlertDescription className="space-y-2">
+                  <p>
+                    This payment request is for{" "}
+                    {requestChain
+                      ? requestChain.name
+                      : `chain ${pendingRequest.chainId}, which this wallet does not support`}
+                    .
+                  </p>
+                  <div className="flex gap-2">
+                    {requestChain && (
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          switchChain({ chainId: requestChain.id }, { onError: (error) => toast.error(error.message) })
+                        }
+                        disabled={isSwitchingChain}
+                      >
+                        {isSwitchingChain && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                        Switch to {requestChain.name}
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setPendingRequest(undefined)}>
+                      Dismiss
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="send-token">Asset</Label>
+              <Select value={token ? token.address : NATIVE_TOKEN} onValueChange={setTokenKey}>
+                <SelectTrigger id="send-token" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NATIVE_TOKEN}>
+                    {nativeCurrency.symbol} · {ethBalance.formattedBalance}
+                  </SelectItem>
+                  {tokenBalances.map((tokenBalance) => (
+                    <SelectItem key={tokenBalance.address} value={tokenBalance.address}>
+                      {tokenBalance.symbol} · {tokenBalance.formattedBalance}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="send-recipient">Recipient</Label>
+              <Input
+                id="send-recipient"
+                value={recipient}
+                onChange={(e) => handleRecipientChange(e.target.value)}
+                placeholder="0x..., name.eth or ethereum: link"
+                className="font-mono text-sm"
+              />
+              {ensName && isResolvingEns && (
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Resolving {ensName}...
+                </p>
+              )}
+              {ensName && recipientAddress && (
+                <p className="text-xs font-mono text-muted-foreground">{recipientAddress}</p>
+              )}
+              {recipientError && <p className="text-xs text-destructive">{recipientError}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="send-amount">Amount</Label>
+                <span className="text-xs text-muted-foreground">
+                  Balance: {formatUnits(balance, decimals)} {symbol}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id="send-amount"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.0"
+                  inputMode="decimal"
+                  className="font-mono text-sm"
+                />
+                <Button type="button" variant="outline" onClick={handleMax} disabled={gasEstimation.isLoading}>
+                  Max
+                </Button>
+              </div>
+              {amountError && <p className="text-xs text-destructive">{amountError}</p>}
+            </div>
+
+            {transaction && (
+              <GasEstimationDisplay
+                slow={gasEstimation.slow}
+                standard={gasEstimation.standard}
+                fast={gasEstimation.fast}
+                selectedOption={gasEstimation.selectedOption}
+                onOptionChange={gasEstimation.setSelectedOption}
+                custom={gasEstimation.custom}
+                userOperation={gasEstimation.userOperation}
+                isLoading={gasEstimation.isLoading}
+                error={gasEstimation.error}
+              />
+            )}
+
+            <Button className="w-full" size="lg" onClick={handleSend} disabled={!canSend || isSending}>
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              {isSending ? "Confirm in your wallet..." : `Send ${symbol}`}
+            </Button>
+          </div>
+        )}
+
+        {recentTransfers.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="text-sm font-medium">Recent Transfers</h4>
+            {recentTransfers.map((record) => (
+              <div key={record.hash} className="flex items-center justify-between text-xs">
+                <div className="flex items-center gap-1.5 min-w-0">
+                  <ArrowUpRight className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                  <span className="truncate">
+                    {record.amount} {record.symbol} to <AddressName address={record.to} name={record.recipientName} />
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Badge
+                    variant={record.status === "failed" ? "destructive" : "secondary"}
+                    className="text-[10px] px-1.5 py-0"
+                  >
+                    {record.status}
+                  </Badge>
+                  {record.transactionHash && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 w-5 p-0"
+                      onClick={() => openExplorerLink(record.chainId, "tx", record.transactionHash!)}
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useConfig, useReadContract } from "wagmi";
+import { erc20Abi, formatEther, isAddress, parseEther, parseUnits, type Address, type Hex } from "viem";
+import { toast } from "sonner";
+import { KeyRound, Loader2, ShieldOff, Timer } from "lucide-react";
+import { useSessionKey } from "@/hooks/use-session-key";
+import { isSessionKeyExpired, type SessionKeyPolicy } from "@/connectors/passkeys-session-keys";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const DURATIONS = [
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "24 hours", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+] as const;
+
+/**
+ * Splits a comma or newline separated list of addresses, dropping blanks
+ */
+const parseAddressList = (value: string): string[] =>
+  value
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+export const SessionKeySettings = () => {
+  const { sessionKey, otherSessionKeys, isLoading, createSessionKey, revokeSessionKey, isCreating, isRevoking } =
+    useSessionKey();
+  const { chains } = useConfig();
+  const [targets, setTargets] = useState("");
+  const [selector, setSelector] = useState("");
+  const [valueLimit, setValueLimit] = useState("0");
+  const [token, setToken] = useState("");
+  const [tokenLimit, setTokenLimit] = useState("");
+  const [duration, setDuration] = useState<string>(String(DURATIONS[1].seconds));
+
+  const { data: tokenDecimals } = useReadContract({
+    address: token as Address,
+    abi: erc20Abi,
+    functionName: "decimals",
+    query: { enabled: isAddress(token) },
+  });
+
+  const targetList = parseAddressList(targets);
+  const hasInvalidTarget = targetList.some((target) => !isAddress(target));
+  const hasInvalidSelector = !!selector && !/^0x[0-9a-fA-F]{8}$/.test(selector);
+  const hasTokenLimit = isAddress(token) && !!tokenLimit && tokenDecimals !== undefined;
+  const canCreate = !hasInvalidTarget && !hasInvalidSelector && (targetList.length > 0 || hasTokenLimit) && !isCreating;
+
+  const handleCreate = async (): Promise<void> => {
+    try {
+      const policy: SessionKeyPolicy = {
+        permissions: targetList.map((target) => ({
+          target: target as Address,
+          selector: selector ? (selector as Hex) : undefined,
+          valueLimit: parseEther(valueLimit || "0"),
+        })),
+        tokenLimits: hasTokenLimit
+          ? [{ token: token as Address, maxAmount: parseUnits(tokenLimit, tokenDecimals) }]
+          : undefined,
+        validUntil: Math.floor(Date.now() / 1000) + Number(duration),
+      };
+      await createSessionKey(policy);
+      toast.success("Session key created. Your passkey will be asked once, on its first transaction.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create session key");
+    }
+  };
+
+  const handleRevoke = async (): Promise<void> => {
+    try {
+      await revokeSessionKey();
+      toast.success("Session key revoked");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revoke session key");
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeyRound className="h-5 w-5" />
+          Session Key
+        </CardTitle>
+        <CardDescription>
+          Sign transactions to approved contracts without a biometric prompt until the key expires.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessionKey ? (
+          <div className="space-y-3">
+            <div className="bg-muted/50 rounded-lg p-4 space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Key</span>
+                <span className="font-mono">
+                  {sessionKey.address.slice(0, 6)}...{sessionKey.address.slice(-4)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Expires</span>
+                {isSessionKeyExpired(sessionKey.policy) ? (
+                  <Badge variant="destructive">Expired</Badge>
+                ) : (
+                  <span className="flex items-center gap-1">
+                    <Timer className="h-3 w-3" />
+                    {new Date(sessionKey.policy.validUntil * 1000).toLocaleString()}
+                  </span>
+                )}
+              </div>
+              {sessionKey.policy.permissions.map((permission) => (
+                <div key={permission.target} className="flex items-center justify-between">
+                  <span className="font-mono">
+                    {permission.target.slice(0, 6)}...{permission.target.slice(-4)}
+                    {permission.selector && ` · ${permission.selector}`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    up to {formatEther(permission.valueLimit ?? 0n)} ETH per call
+                  </span>
+                </div>
+              ))}
+              {sessionKey.policy.tokenLimits?.map((limit) => (
+                <div key={limit.token} className="flex items-center justify-between">
+                  <span className="font-mono">
+                    {limit.token.slice(0, 6)}...{limit.token.slice(-4)}
+                  </span>
+                  <span className="text-muted-foreground">transfers up to {limit.maxAmount.toString()} units</span>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              onClick={handleRevoke}
+              disabled={isRevoking}
+              variant="outline"
+              className="w-full text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300"
+            >
+              {isRevoking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldOff className="mr-2 h-4 w-4" />}
+              Revoke Session Key
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="session-key-targets">Allowed contracts</Label>
+              <Textarea
+                id="session-key-targets"
+                placeholder="0x... (one per line)"
+                value={targets}
+                onChange={(e) => setTargets(e.target.value)}
+                className="font-mono text-sm"
+              />
+              {hasInvalidTarget && <p className="text-sm text-destructive">Enter valid contract addresses</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="session-key-selector">Function selector (optional)</Label>
+              <Input
+                id="session-key-selector"
+                placeholder="0xa9059cbb"
+                value={selector}
+                onChange={(e) => setSelector(e.target.value.trim())}
+                className="font-mono text-sm"
+              />
+              {hasInvalidSelector ? (
+                <p className="text-sm text-destructive">Enter a 4-byte selector, e.g. 0xa9059cbb</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Without a selector the key may only send ETH to these addresses, not call their functions.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="session-key-value-limit">Max ETH per call</Label>
+              <Input
+                id="session-key-value-limit"
+                type="number"
+                min="0"
+                step="0.001"
+                value={valueLimit}
+                onChange={(e) => setValueLimit(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="session-key-token">Token (optional)</Label>
+                <Input
+                  id="session-key-token"
+                  placeholder="0x..."
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="session-key-token-limit">Max per transfer</Label>
+                <Input
+                  id="session-key-token-limit"
+                  type="number"
+                  min="0"
+                  value={tokenLimit}
+                  onChange={(e) => setTokenLimit(e.target.value)}
+                  disabled={!isAddress(token)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select value={duration} onValueChange={setDuration}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATIONS.map((option) => (
+                    <SelectItem key={option.seconds} value={String(option.seconds)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button onClick={handleCreate} disabled={!canCreate} className="w-full">
+              {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+              Create Session Key
+            </Button>
+          </div>
+        )}
+
+        {otherSessionKeys.length > 0 && (
+          <div className="space-y-2 text-sm">
+            <Label>Session keys on other accounts and networks</Label>
+            {otherSessionKeys.map((key) => (
+              <div key={`${key.chainId}:${key.accountAddress}`} className="flex items-center justify-between">
+                <span className="font-mono">
+                  {key.accountAddress.slice(0, 6)}...{key.accountAddress.slice(-4)}
+                </span>
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  {chains.find((chain) => chain.id === key.chainId)?.name ?? `Chain ${key.chainId}`}
+                  {isSessionKeyExpired(key.policy) && <Badge variant="destructive">Expired</Badge>}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Each stays installed on its account until revoked. Switch to its account and network to revoke it.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
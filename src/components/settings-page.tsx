@@ -0,0 +1,37 @@
+import { useAccount } from "wagmi";
+import { Settings } from "lucide-react";
+import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PasskeyDevices } from "@/components/passkey-devices";
+import { RecoverySettingsCard } from "@/components/recovery-settings";
+import { SessionKeySettings } from "@/components/session-key-settings";
+import { isPasskeyConnector } from "@/connectors/passkeys-connector";
+
+export function SettingsPage() {
+  const { connector } = useAccount();
+  const isPasskey = isPasskeyConnector(connector);
+
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Settings className="h-5 w-5" />
+          Settings
+        </CardTitle>
+        {!isPasskey && (
+          <CardDescription>
+            Devices, recovery and session keys are managed by {connector?.name ?? "your wallet"}. They can only be
+            configured here for passkey wallets.
+          </CardDescription>
+        )}
+      </CardHeader>
+
+      {isPasskey && (
+        <CardContent className="space-y-4">
+          <PasskeyDevices />
+          <RecoverySettingsCard />
+          <SessionKeySettings />
+        </CardContent>
+      )}
+    </>
+  );
+}
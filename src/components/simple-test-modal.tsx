@@ -1,4 +1,4 @@
-import { useSendTransaction, useWaitForTransactionReceipt, useAccount, useChainId } from "wagmi";
+import { useSendTransaction, useAccount, useChainId } from "wagmi";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,6 +6,7 @@ import { Gift, Loader2, CheckCircle, AlertCircle, ExternalLink, Copy } from "luc
 import { parseEther } from "viem";
 import { useEthTransferGasEstimation } from "@/hooks/use-gas-estimation";
 import { GasEstimationDisplay } from "@/components/gas-estimation-display";
+import { useUserOperationStatus } from "@/hooks/use-user-operation-status";
 import { openExplorerLink } from "@/utils/explorer-links";
 import { useState } from "react";
 
@@ -28,9 +29,13 @@ export function SimpleTestModal({ isOpen, onClose }: SimpleTestModalProps) {
 
   const { sendTransaction, data: hash, error, isPending } = useSendTransaction();
 
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
-    hash,
-  });
+  const {
+    isPending: isConfirming,
+    isSuccess: isConfirmed,
+    isFailed,
+    error: operationError,
+    transactionHash,
+  } = useUserOperationStatus(hash);
 
   const handleTest = async (): Promise<void> => {
     if (!address) {
@@ -80,11 +85,12 @@ export function SimpleTestModal({ isOpen, onClose }: SimpleTestModalProps) {
   };
 
   const getStatusContent = () => {
-    if (error) {
+    if (error || isFailed) {
       return {
         icon: <AlertCircle className="h-8 w-8 text-red-500" />,
         title: "Test Failed",
-        description: error.message || "There was an error with the test transaction. Please try again.",
+        description:
+          error?.message || operationError || "There was an error with the test transaction. Please try again.",
         buttonText: "Try Again",
         buttonVariant: "destructive" as const,
         onButtonClick: handleTest,
@@ -121,6 +127,7 @@ export function SimpleTestModal({ isOpen, onClose }: SimpleTestModalProps) {
       buttonText: "Run Test Transaction",
       buttonVariant: "default" as const,
       onButtonClick: handleTest,
+      disabled: !!gasEstimation.custom.error,
     };
   };
 
@@ -159,6 +166,8 @@ export function SimpleTestModal({ isOpen, onClose }: SimpleTestModalProps) {
               fast={gasEstimation.fast}
               selectedOption={gasEstimation.selectedOption}
               onOptionChange={gasEstimation.setSelectedOption}
+              custom={gasEstimation.custom}
+              userOperation={gasEstimation.userOperation}
               isLoading={gasEstimation.isLoading}
               error={gasEstimation.error}
               variant="default"
@@ -208,14 +217,14 @@ export function SimpleTestModal({ isOpen, onClose }: SimpleTestModalProps) {
             {status.buttonText}
           </Button>
 
-          {!isConfirmed && !error && (
+          {!isConfirmed && !error && !isFailed && (
             <Button variant="ghost" onClick={handleClose} className="w-full">
               Cancel
             </Button>
           )}
         </div>
 
-        {hash && (
+        {transactionHash && (
           <div className="mt-4 p-3 bg-muted/30 rounded-lg">
             <div className="flex items-center justify-between mb-2">
               <p className="text-xs text-muted-foreground">Transaction Hash:</p>
@@ -223,17 +232,22 @@ export function SimpleTestModal({ isOpen, onClose }: SimpleTestModalProps) {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => openExplorerLink(chainId, "tx", hash)}
+                  onClick={() => openExplorerLink(chainId, "tx", transactionHash)}
                   className="h-6 w-6 p-0"
                 >
                   <ExternalLink className="h-3 w-3" />
                 </Button>
-                <Button variant="ghost" size="sm" onClick={() => copyToClipboard(hash)} className="h-6 w-6 p-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => copyToClipboard(transactionHash)}
+                  className="h-6 w-6 p-0"
+                >
                   {copied ? <CheckCircle className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
                 </Button>
               </div>
             </div>
-            <p className="font-mono text-xs break-all">{hash}</p>
+            <p className="font-mono text-xs break-all">{transactionHash}</p>
           </div>
         )}
       </DialogContent>
@@ -5,14 +5,20 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Coins, RefreshCw, TrendingUp, AlertCircle, Wallet, ExternalLink } from "lucide-react";
+import { Coins, RefreshCw, TrendingUp, AlertCircle, Wallet, ExternalLink, Plus, X } from "lucide-react";
 import { useState } from "react";
-import { useChainId } from "wagmi";
+import { useChainId, useConfig } from "wagmi";
+import { toast } from "sonner";
 import { openExplorerLink } from "@/utils/explorer-links";
+import { useTokenRegistry } from "@/hooks/use-token-registry";
+import { useTokenPrice } from "@/hooks/use-token-price";
+import { formatFiat } from "@/utils/format-fiat";
+import { AddTokenDialog } from "@/components/add-token-dialog";
 
 interface TokenBalanceItemProps {
   readonly token: TokenBalance;
   readonly isEth?: boolean;
+  readonly onRemove?: () => void;
 }
 
 /**
@@ -93,9 +99,11 @@ const formatBalanceDisplay = (formattedBalance: string): { display: string; exac
   };
 };
 
-const TokenBalanceItem = ({ token, isEth = false }: TokenBalanceItemProps) => {
+const TokenBalanceItem = ({ token, isEth = false, onRemove }: TokenBalanceItemProps) => {
   const chainId = useChainId();
   const hasBalance = token.balance > 0n;
+  const { price, currency } = useTokenPrice({ token: isEth ? undefined : token });
+  const value = price !== undefined ? parseFloat(token.formattedBalance) * price : undefined;
   // Note: Removed isRewardsToken logic - treat all tokens as regular tokens
 
   const { display: formattedDisplay, exact: exactValue } = formatBalanceDisplay(token.formattedBalance);
@@ -108,7 +116,7 @@ const TokenBalanceItem = ({ token, isEth = false }: TokenBalanceItemProps) => {
             isEth ? "bg-blue-100 text-blue-600" : "bg-purple-100 text-purple-600"
           }`}
         >
-          {isEth ? <span className="text-xs font-bold">ETH</span> : <Coins className="h-4 w-4" />}
+          {isEth ? <span className="text-xs font-bold">{token.symbol}</span> : <Coins className="h-4 w-4" />}
         </div>
 
         <div className="flex-1">
@@ -138,6 +146,23 @@ const TokenBalanceItem = ({ token, isEth = false }: TokenBalanceItemProps) => {
                 <p>View on {isEth ? "Etherscan" : "Explorer"}</p>
               </TooltipContent>
             </Tooltip>
+            {onRemove && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                    onClick={onRemove}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Remove token</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
           </div>
         </div>
       </div>
@@ -167,7 +192,9 @@ const TokenBalanceItem = ({ token, isEth = false }: TokenBalanceItemProps) => {
                 <p className="text-xs text-muted-foreground mt-1">Exact value</p>
               </TooltipContent>
             </Tooltip>
-            <p className="text-xs text-muted-foreground">{token.symbol}</p>
+            <p className="text-xs text-muted-foreground">
+              {value !== undefined && hasBalance ? `≈ ${formatFiat(value, currency)}` : token.symbol}
+            </p>
           </div>
         )}
       </div>
@@ -177,7 +204,12 @@ const TokenBalanceItem = ({ token, isEth = false }: TokenBalanceItemProps) => {
 
 export const TokenBalances = () => {
   const { ethBalance, tokenBalances, isLoading, hasError, refetch } = useTokenBalances();
+  const { removeToken } = useTokenRegistry();
+  const chainId = useChainId();
+  const config = useConfig();
+  const nativeCurrency = config.chains.find((chain) => chain.id === chainId)?.nativeCurrency;
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isAddTokenOpen, setIsAddTokenOpen] = useState(false);
 
   const handleRefresh = async (): Promise<void> => {
     setIsRefreshing(true);
@@ -186,8 +218,16 @@ export const TokenBalances = () => {
     setTimeout(() => setIsRefreshing(false), 1000);
   };
 
-  // Filter to only show tokens with balance > 0
-  const tokensWithBalance = tokenBalances.filter((token) => token.balance > 0n);
+  const handleRemove = async (token: TokenBalance): Promise<void> => {
+    try {
+      await removeToken(token.address);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove token");
+    }
+  };
+
+  // Filter to only show tokens with balance > 0, plus the ones the user added themselves
+  const tokensWithBalance = tokenBalances.filter((token) => token.balance > 0n || token.source === "user");
   const hasEthBalance = ethBalance.balance > 0n;
 
   // Always show ETH (even with zero balance) but only show tokens with balance > 0
@@ -207,6 +247,10 @@ export const TokenBalances = () => {
               {tokensWithBalance.length > 0 ? `${totalTokenCount} tokens` : "1 token"}
             </Badge>
 
+            <Button variant="ghost" size="sm" onClick={() => setIsAddTokenOpen(true)} className="h-8 w-8 p-0">
+              <Plus className="h-4 w-4" />
+            </Button>
+
             <Button
               variant="ghost"
               size="sm"
@@ -233,9 +277,10 @@ export const TokenBalances = () => {
           <TokenBalanceItem
             token={{
               address: "0x0000000000000000000000000000000000000000" as const,
-              symbol: "ETH",
-              name: "Ethereum",
+              symbol: nativeCurrency?.symbol ?? "ETH",
+              name: nativeCurrency?.name ?? "Ethereum",
               decimals: 18,
+              source: "default",
               balance: ethBalance.balance,
               formattedBalance: ethBalance.formattedBalance,
               isLoading: ethBalance.isLoading,
@@ -248,7 +293,11 @@ export const TokenBalances = () => {
           {tokensWithBalance.length > 0 && (
             <div className="space-y-2">
               {tokensWithBalance.map((token) => (
-                <TokenBalanceItem key={token.address} token={token} />
+                <TokenBalanceItem
+                  key={token.address}
+                  token={token}
+                  onRemove={token.source === "user" ? () => handleRemove(token) : undefined}
+                />
               ))}
             </div>
           )}
@@ -261,6 +310,8 @@ export const TokenBalances = () => {
           )}
         </CardContent>
       </Card>
+
+      <AddTokenDialog isOpen={isAddTokenOpen} onClose={() => setIsAddTokenOpen(false)} />
     </TooltipProvider>
   );
 };
@@ -1,17 +1,19 @@
-import { useReadContracts, useChainId } from "wagmi";
-import { erc20Abi } from "viem";
-import { sepolia } from "wagmi/chains";
+import { useReadContracts, useChainId, useConfig } from "wagmi";
+import { erc20Abi, zeroAddress } from "viem";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ExternalLink, Search, Copy } from "lucide-react";
 import { openExplorerLink, getExplorerName } from "@/utils/explorer-links";
+import { getRewardsToken } from "@/utils/token-registry";
 import { useState } from "react";
 
-const REWARDS_TOKEN_ADDRESS = "0x118f6c0090ffd227cbefe1c6d8a803198c4422f0" as const;
-
 export const TokenInspector = () => {
   const chainId = useChainId();
+  const config = useConfig();
+  const chainName = config.chains.find((chain) => chain.id === chainId)?.name ?? "this network";
+  const rewardsToken = getRewardsToken(chainId);
+  const tokenAddress = rewardsToken?.address ?? zeroAddress;
   const [copied, setCopied] = useState(false);
 
   const copyToClipboard = async (text: string): Promise<void> => {
@@ -33,24 +35,25 @@ export const TokenInspector = () => {
   } = useReadContracts({
     contracts: [
       {
-        address: REWARDS_TOKEN_ADDRESS,
+        address: tokenAddress,
         abi: erc20Abi,
         functionName: "name",
-        chainId: sepolia.id,
+        chainId,
       },
       {
-        address: REWARDS_TOKEN_ADDRESS,
+        address: tokenAddress,
         abi: erc20Abi,
         functionName: "symbol",
-        chainId: sepolia.id,
+        chainId,
       },
       {
-        address: REWARDS_TOKEN_ADDRESS,
+        address: tokenAddress,
         abi: erc20Abi,
         functionName: "decimals",
-        chainId: sepolia.id,
+        chainId,
       },
     ],
+    query: { enabled: !!rewardsToken },
   });
 
   // Extract token info from results
@@ -60,10 +63,26 @@ export const TokenInspector = () => {
           name: tokenMetadata[0].result as string,
           symbol: tokenMetadata[1].result as string,
           decimals: tokenMetadata[2].result as number,
-          address: REWARDS_TOKEN_ADDRESS,
+          address: tokenAddress,
         }
       : null;
 
+  if (!rewardsToken) {
+    return (
+      <Card className="w-full">
+        <CardHeader className="pb-4">
+          <div className="flex items-center space-x-2">
+            <Search className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Rewards Token Inspector</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground text-center py-4">There is no rewards token on {chainName}.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
@@ -74,7 +93,7 @@ export const TokenInspector = () => {
         <Button
           variant="outline"
           size="sm"
-          onClick={() => openExplorerLink(chainId, "token", REWARDS_TOKEN_ADDRESS)}
+          onClick={() => openExplorerLink(chainId, "token", tokenAddress)}
           className="h-8"
         >
           <ExternalLink className="h-4 w-4 mr-1" />
@@ -90,25 +109,20 @@ export const TokenInspector = () => {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => openExplorerLink(chainId, "token", REWARDS_TOKEN_ADDRESS)}
+                onClick={() => openExplorerLink(chainId, "token", tokenAddress)}
                 className="h-6 w-6 p-0"
               >
                 <ExternalLink className="h-3 w-3" />
               </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => copyToClipboard(REWARDS_TOKEN_ADDRESS)}
-                className="h-6 w-6 p-0"
-              >
+              <Button variant="ghost" size="sm" onClick={() => copyToClipboard(tokenAddress)} className="h-6 w-6 p-0">
                 {copied ? <Copy className="h-3 w-3 text-green-600" /> : <Copy className="h-3 w-3" />}
               </Button>
               <Badge variant="secondary" className="font-mono text-xs">
-                {REWARDS_TOKEN_ADDRESS.slice(0, 6)}...{REWARDS_TOKEN_ADDRESS.slice(-4)}
+                {tokenAddress.slice(0, 6)}...{tokenAddress.slice(-4)}
               </Badge>
             </div>
           </div>
-          <div className="text-xs font-mono text-muted-foreground break-all">{REWARDS_TOKEN_ADDRESS}</div>
+          <div className="text-xs font-mono text-muted-foreground break-all">{tokenAddress}</div>
         </div>
 
         {isLoading && (
@@ -147,7 +161,7 @@ export const TokenInspector = () => {
             </div>
 
             <div className="text-xs text-muted-foreground text-center">
-              This is the actual token deployed on Sepolia that you receive when claiming rewards.
+              This is the actual token deployed on {chainName} that you receive when claiming rewards.
             </div>
           </div>
         )}
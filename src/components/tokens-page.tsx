@@ -0,0 +1,22 @@
+import { Coins } from "lucide-react";
+import { CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PortfolioSummary } from "@/components/portfolio-summary";
+import { TokenBalances } from "@/components/token-balances";
+
+export function TokensPage() {
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Coins className="h-5 w-5" />
+          Tokens
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <PortfolioSummary />
+        <TokenBalances />
+      </CardContent>
+    </>
+  );
+}
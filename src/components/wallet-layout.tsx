@@ -0,0 +1,44 @@
+import { NavLink, Outlet } from "react-router";
+import { ArrowDownLeft, Coins, History, Home, Send, Settings } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ROUTES } from "@/utils/routes";
+
+const NAV_ITEMS: readonly { readonly to: string; readonly label: string; readonly icon: LucideIcon }[] = [
+  { to: ROUTES.home, label: "Home", icon: Home },
+  { to: ROUTES.tokens, label: "Tokens", icon: Coins },
+  { to: ROUTES.activity, label: "Activity", icon: History },
+  { to: ROUTES.send, label: "Send", icon: Send },
+  { to: ROUTES.receive, label: "Receive", icon: ArrowDownLeft },
+  { to: ROUTES.settings, label: "Settings", icon: Settings },
+];
+
+/**
+ * Shell of the connected pages: section navigation above the current page
+ */
+export function WalletLayout() {
+  return (
+    <>
+      {/* Right padding keeps the links clear of the theme toggle */}
+      <nav className="grid grid-cols-6 gap-1 pl-3 pr-14 pt-3">
+        {NAV_ITEMS.map(({ to, label, icon: Icon }) => (
+          <NavLink
+            key={to}
+            to={to}
+            end={to === ROUTES.home}
+            className={({ isActive }) =>
+              cn(
+                "flex flex-col items-center gap-1 rounded-md py-1.5 text-[10px] font-medium text-muted-foreground transition-colors hover:bg-muted hover:text-foreground",
+                isActive && "bg-muted text-foreground",
+              )
+            }
+          >
+            <Icon className="h-4 w-4" />
+            {label}
+          </NavLink>
+        ))}
+      </nav>
+      <Outlet />
+    </>
+  );
+}
@@ -1,12 +1,38 @@
 import * as React from "react";
+import { Link } from "react-router";
+import { toast } from "sonner";
 import { Connector, useConnect } from "wagmi";
 import { CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { KeyRound, AlertCircle } from "lucide-react";
+import { KeyRound, AlertCircle, Fingerprint, Plus } from "lucide-react";
+import { RECOVERY_PATH } from "@/utils/recovery-link";
+import { promptPasskeyName } from "@/utils/passkey-name-prompt";
+import { isPasskeyConnector } from "@/connectors/passkeys-connector";
+import { PasskeyCancelledError, PasskeyNotFoundError, PasskeyServerError } from "@/connectors/passkeys-errors";
+import type { PasskeysConnectFlow } from "@/types/passkeys-connector";
+
+const DEFAULT_PASSKEY_NAME = "My Wallet";
 
 export function WalletOptions() {
   const { connectors, connect, isPending, error } = useConnect();
+  const passkeyConnector = connectors.find(isPasskeyConnector);
+  const otherConnectors = connectors.filter((connector) => connector !== passkeyConnector);
+
+  const connectPasskey = (passkey: PasskeysConnectFlow): void => {
+    if (!passkeyConnector) return;
+    connect({ connector: passkeyConnector, passkey });
+  };
+
+  const handleCreateWallet = async (): Promise<void> => {
+    try {
+      const name = await promptPasskeyName(DEFAULT_PASSKEY_NAME);
+      connectPasskey({ mode: "register", name });
+    } catch (nameError) {
+      if (nameError instanceof PasskeyCancelledError) return;
+      toast.error(nameError instanceof Error ? nameError.message : "Failed to create wallet");
+    }
+  };
 
   return (
     <>
@@ -23,7 +49,35 @@ export function WalletOptions() {
       </CardHeader>
 
       <CardContent className="space-y-4">
-        {connectors.map((connector) => (
+        {passkeyConnector && (
+          <div className="space-y-2">
+            <Button
+              disabled={isPending}
+              onClick={handleCreateWallet}
+              size="lg"
+              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Create new wallet
+            </Button>
+            <Button
+              disabled={isPending}
+              onClick={() => connectPasskey({ mode: "login" })}
+              variant="outline"
+              size="lg"
+              className="w-full"
+            >
+              {isPending ? (
+                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+              ) : (
+                <Fingerprint className="mr-2 h-4 w-4" />
+              )}
+              Sign in with existing passkey
+            </Button>
+          </div>
+        )}
+
+        {otherConnectors.map((connector) => (
           <WalletOption
             key={connector.uid}
             connector={connector}
@@ -32,11 +86,18 @@ export function WalletOptions() {
           />
         ))}
 
-        {error && (
+        {error && !(error instanceof PasskeyCancelledError) && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              <strong>Connection Error:</strong> {error.message}
+              <strong>
+                {error instanceof PasskeyNotFoundError
+                  ? "Passkey not recognised:"
+                  : error instanceof PasskeyServerError
+                    ? "Passkey server error:"
+                    : "Connection Error:"}
+              </strong>{" "}
+              {error.message}
               {error.message.includes("Unsupported entry point") && (
                 <div className="mt-1 text-sm">
                   Try checking your ZeroDev project settings or contact support if this persists.
@@ -45,6 +106,12 @@ export function WalletOptions() {
             </AlertDescription>
           </Alert>
         )}
+
+        <div className="text-center">
+          <Link to={RECOVERY_PATH} className="text-sm text-muted-foreground hover:text-foreground underline">
+            Lost your passkey? Recover your account
+          </Link>
+        </div>
       </CardContent>
     </>
   );
@@ -63,13 +130,7 @@ function WalletOption({
 
   React.useEffect(() => {
     (async () => {
-      // For passkey connectors, they're ready by default since they don't need a pre-existing provider
-      if (connector.name === "Passkey") {
-        setReady(true);
-        return;
-      }
-
-      // For other connectors, check if provider is available
+      // Injected connectors are ready once their provider is available
       try {
         const provider = await connector.getProvider();
         setReady(!!provider);
@@ -80,19 +141,13 @@ function WalletOption({
     })();
   }, [connector]);
 
-  const isPasskey = connector.name === "Passkey";
-
   return (
     <Button
       disabled={!ready || isPending}
       onClick={onClick}
-      variant={isPasskey ? "default" : "outline"}
+      variant="outline"
       size="lg"
-      className={`w-full ${
-        isPasskey
-          ? "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg"
-          : "hover:bg-muted"
-      }`}
+      className="w-full hover:bg-muted"
     >
       {isPending ? (
         <>
@@ -101,7 +156,6 @@ function WalletOption({
         </>
       ) : (
         <>
-          {isPasskey && <KeyRound className="mr-2 h-4 w-4" />}
           {connector.name}
           {!ready && " (Loading...)"}
         </>
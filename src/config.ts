@@ -1,25 +1,59 @@
 import { createConfig, http } from "wagmi";
 import { metaMask } from "wagmi/connectors";
-import { sepolia, polygonAmoy } from "wagmi/chains";
+import { sepolia, polygonAmoy, foundry, mainnet } from "wagmi/chains";
 import { passkeysWalletConnector } from "@/connectors/passkeys-connector";
 import { createStorage } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
+import { createPublicClient, type PublicClient } from "viem";
+import { createPriceService, type PriceProvider } from "@/utils/price-service";
+import {
+  STATIC_USD_PRICES,
+  createChainlinkPriceProvider,
+  createCoinGeckoPriceProvider,
+  createStaticPriceProvider,
+} from "@/utils/price-providers";
+import { createNameService, type NameResolver } from "@/utils/name-service";
+import { createEnsNameResolver, createMockNameResolver } from "@/utils/name-resolvers";
 
 // Replace with your actual ZeroDev project ID
 const ZERODEV_PROJECT_ID = import.meta.env.VITE_ZERODEV_PROJECT_ID;
 
+// Set to "true" once a gas sponsorship policy exists for the project
+const SPONSOR_GAS = import.meta.env.VITE_ZERODEV_SPONSOR_GAS === "true";
+
+// Self-hosted passkey server and bundler for offline development; ZeroDev's hosted services when unset
+const PASSKEY_SERVER_URL = import.meta.env.VITE_PASSKEY_SERVER_URL || undefined;
+const BUNDLER_URL = import.meta.env.VITE_BUNDLER_URL || undefined;
+
+// Set to "true" to run against a local anvil node instead of the public testnets
+const LOCAL_CHAIN = import.meta.env.VITE_LOCAL_CHAIN === "true";
+
+// Where prices come from: "coingecko", "chainlink" feeds falling back to CoinGecko, or "static" sample prices
+const PRICE_SOURCE = import.meta.env.VITE_PRICE_SOURCE || (LOCAL_CHAIN ? "static" : "coingecko");
+
+// Where names come from: "ens" on the L1 below, or "mock" names for anvil's default accounts
+const NAME_SOURCE = import.meta.env.VITE_NAME_SOURCE || (LOCAL_CHAIN ? "mock" : "ens");
+// ENS lives on L1 rather than the chains the wallet uses; "sepolia" resolves names registered on the Sepolia ENS
+const ENS_CHAIN = import.meta.env.VITE_ENS_CHAIN === "sepolia" ? sepolia : mainnet;
+const ENS_RPC_URL = import.meta.env.VITE_ENS_RPC_URL || undefined;
+
 export const config = createConfig({
-  chains: [sepolia, polygonAmoy], // Sepolia as default, Polygon Amoy as alternative
+  chains: LOCAL_CHAIN ? [foundry] : [sepolia, polygonAmoy], // Sepolia as default, Polygon Amoy as alternative
   connectors: [
     passkeysWalletConnector({
       projectId: ZERODEV_PROJECT_ID,
       appName: "Wagmi Passkeys App",
       passkeyName: "My Wallet", // Default name (users can customize this)
+      paymaster: SPONSOR_GAS ? { type: "sponsor" } : undefined,
+      passkeyServerUrl: PASSKEY_SERVER_URL,
+      bundlerUrl: BUNDLER_URL,
     }),
     metaMask(),
   ],
   transports: {
     [sepolia.id]: http(),
     [polygonAmoy.id]: http("https://rpc-amoy.polygon.technology"),
+    [foundry.id]: http(),
   },
   // Enable session persistence with localStorage
   storage: createStorage({
@@ -33,3 +67,37 @@ declare module "wagmi" {
     config: typeof config;
   }
 }
+
+const getPriceProviders = (): PriceProvider[] => {
+  switch (PRICE_SOURCE) {
+    case "static":
+      return [createStaticPriceProvider(STATIC_USD_PRICES)];
+    case "chainlink":
+      return [
+        createChainlinkPriceProvider({
+          getClient: (chainId) =>
+            getPublicClient(config, { chainId: chainId as (typeof config)["chains"][number]["id"] }) as
+              | PublicClient
+              | undefined,
+        }),
+        createCoinGeckoPriceProvider(),
+      ];
+    default:
+      return [createCoinGeckoPriceProvider()];
+  }
+};
+
+export const priceService = createPriceService({ providers: getPriceProviders() });
+
+const getNameResolver = (): NameResolver => {
+  switch (NAME_SOURCE) {
+    case "mock":
+      return createMockNameResolver();
+    default:
+      return createEnsNameResolver({
+        client: createPublicClient({ chain: ENS_CHAIN, transport: http(ENS_RPC_URL) }) as PublicClient,
+      });
+  }
+};
+
+export const nameService = createNameService({ resolver: getNameResolver() });
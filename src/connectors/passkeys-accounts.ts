@@ -0,0 +1,45 @@
+import { get, update } from "idb-keyval";
+import type { Address } from "viem";
+
+/**
+ * A kernel account owned by a passkey, identified by the kernel index it was derived with
+ */
+export interface PasskeyAccount {
+  readonly index: number;
+  readonly address: Address;
+  readonly label: string;
+  readonly createdAt: number;
+}
+
+export interface PasskeyAccountInfo extends PasskeyAccount {
+  readonly isActive: boolean;
+}
+
+export interface PasskeyAccountsState {
+  readonly accounts: readonly PasskeyAccount[];
+  readonly activeIndex: number;
+}
+
+type PasskeyAccountsRecord = Record<string, PasskeyAccountsState>;
+
+export const toPasskeyAccountInfos = ({ accounts, activeIndex }: PasskeyAccountsState): PasskeyAccountInfo[] =>
+  accounts.map((account) => ({ ...account, isActive: account.index === activeIndex }));
+
+/**
+ * Gets the accounts created with a passkey, keyed by its WebAuthn credential id
+ */
+export async function getPasskeyAccounts(
+  storageKey: string,
+  authenticatorId: string,
+): Promise<PasskeyAccountsState | undefined> {
+  const states = await get<PasskeyAccountsRecord>(storageKey);
+  return states?.[authenticatorId];
+}
+
+export async function savePasskeyAccounts(
+  storageKey: string,
+  authenticatorId: string,
+  state: PasskeyAccountsState,
+): Promise<void> {
+  await update<PasskeyAccountsRecord>(storageKey, (states) => ({ ...states, [authenticatorId]: state }));
+}
@@ -0,0 +1,128 @@
+import { get, update } from "idb-keyval";
+import type { Address, Hash, Hex } from "viem";
+import { decodeFunctionData, erc20Abi, isAddressEqual, numberToHex } from "viem";
+import type { UserOperationStatus } from "./passkeys-user-operation-store";
+
+/**
+ * What an activity entry did, as far as its calls reveal:
+ * - `send`: moved native currency or ERC-20 tokens out of the account
+ * - `receive`: tokens arrived from elsewhere
+ * - `contract`: any other contract interaction
+ * - `deployment`: the no-op operation that deploys the account
+ */
+export type ActivityKind = "send" | "receive" | "contract" | "deployment";
+
+/**
+ * A balance change caused by an activity entry. `amount` is a hex quantity in the token's base units
+ */
+export interface TokenDelta {
+  /** Token contract, or undefined for the native currency */
+  readonly token?: Address;
+  readonly direction: "in" | "out";
+  readonly amount: Hex;
+  readonly counterparty: Address;
+}
+
+export interface ActivityRecord {
+  /** User operation hash for wallet activity */
+  readonly id: string;
+  readonly chainId: number;
+  readonly account: Address;
+  /** RPC method that produced the entry, e.g. `eth_sendTransaction` */
+  readonly method: string;
+  readonly kind: ActivityKind;
+  readonly deltas: readonly TokenDelta[];
+  readonly status: UserOperationStatus;
+  readonly transactionHash?: Hash;
+  readonly error?: string;
+  readonly submittedAt: number;
+  readonly updatedAt: number;
+}
+
+export interface ActivityCall {
+  readonly to: Address;
+  readonly value: bigint;
+  readonly data: Hex;
+}
+
+type ActivityRecordMap = Record<string, ActivityRecord>;
+
+function toTokenDelta(account: Address, call: ActivityCall): TokenDelta | undefined {
+  if (call.data === "0x") {
+    return call.value > 0n ? { direction: "out", amount: numberToHex(call.value), counterparty: call.to } : undefined;
+  }
+
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: call.data });
+    if (functionName === "transfer") {
+      const [to, amount] = args;
+      return { token: call.to, direction: "out", amount: numberToHex(amount), counterparty: to };
+    }
+    if (functionName === "transferFrom") {
+      const [from, to, amount] = args;
+      if (isAddressEqual(from, account)) {
+        return { token: call.to, direction: "out", amount: numberToHex(amount), counterparty: to };
+      }
+      if (isAddressEqual(to, account)) {
+        return { token: call.to, direction: "in", amount: numberToHex(amount), counterparty: from };
+      }
+    }
+  } catch {
+    // Not an ERC-20 call
+  }
+  return undefined;
+}
+
+/**
+ * Classifies the calls of a user operation and extracts the token movements they make
+ */
+export function describeCalls(
+  account: Address,
+  calls: readonly ActivityCall[],
+): Pick<ActivityRecord, "kind" | "deltas"> {
+  const deltas = calls.flatMap((call) => toTokenDelta(account, call) ?? []);
+  const isTransferOnly = deltas.length === calls.length && deltas.length > 0;
+  return {
+    kind: isTransferOnly ? (deltas.every((delta) => delta.direction === "in") ? "receive" : "send") : "contract",
+    deltas,
+  };
+}
+
+/**
+ * Gets the activity of an account across chains, most recent first
+ */
+export async function getActivity(storageKey: string, account: Address): Promise<ActivityRecord[]> {
+  const records = await get<ActivityRecordMap>(storageKey);
+  return Object.values(records ?? {})
+    .filter((record) => isAddressEqual(record.account, account))
+    .sort((a, b) => b.submittedAt - a.submittedAt);
+}
+
+/**
+ * Gets an activity entry by its id
+ */
+export async function getActivityRecord(storageKey: string, id: string): Promise<ActivityRecord | undefined> {
+  const records = await get<ActivityRecordMap>(storageKey);
+  return records?.[id];
+}
+
+/**
+ * Inserts or replaces an activity entry
+ */
+export async function saveActivity(storageKey: string, record: ActivityRecord): Promise<void> {
+  await update<ActivityRecordMap>(storageKey, (records) => ({ ...records, [record.id]: record }));
+}
+
+/**
+ * Copies a user operation's latest status onto its activity entry, if it has one
+ */
+export async function updateActivityStatus(
+  storageKey: string,
+  id: string,
+  changes: Pick<ActivityRecord, "status" | "transactionHash" | "error" | "updatedAt">,
+): Promise<void> {
+  await update<ActivityRecordMap>(storageKey, (records) => {
+    const record = records?.[id];
+    return record ? { ...records, [id]: { ...record, ...changes } } : (records ?? {});
+  });
+}
@@ -0,0 +1,29 @@
+import { get, update } from "idb-keyval";
+import type { Hash } from "viem";
+
+/**
+ * A batch submitted through `wallet_sendCalls`, keyed by its EIP-5792 bundle id
+ */
+export interface CallsBundle {
+  readonly id: string;
+  readonly chainId: number;
+  readonly userOpHash: Hash;
+  readonly createdAt: number;
+}
+
+type CallsBundleRecord = Record<string, CallsBundle>;
+
+/**
+ * Gets a stored call bundle by id
+ */
+export async function getCallsBundle(storageKey: string, id: string): Promise<CallsBundle | undefined> {
+  const bundles = await get<CallsBundleRecord>(storageKey);
+  return bundles?.[id];
+}
+
+/**
+ * Persists a call bundle so its status can be resolved after a reload
+ */
+export async function saveCallsBundle(storageKey: string, bundle: CallsBundle): Promise<void> {
+  await update<CallsBundleRecord>(storageKey, (bundles) => ({ ...bundles, [bundle.id]: bundle }));
+}
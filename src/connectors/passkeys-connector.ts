@@ -1,111 +1,875 @@
 import { createConnector } from "@wagmi/core";
-import { toWebAuthnKey, toPasskeyValidator, PasskeyValidatorContractVersion } from "@zerodev/passkey-validator";
+import { toPasskeyValidator, PasskeyValidatorContractVersion } from "@zerodev/passkey-validator";
 import { getEntryPoint, KERNEL_V3_1 } from "@zerodev/sdk/constants";
-import type { TransactionRequest, EIP1193Parameters, WalletRpcSchema } from "viem";
-import { UserRejectedRequestError, createPublicClient, http } from "viem";
-import { createKernelAccount, createKernelAccountClient, getUserOperationGasPrice } from "@zerodev/sdk";
+import type { Address, Chain, Hash, Transport } from "viem";
+import { createPublicClient, http, isAddressEqual, zeroAddress } from "viem";
+import { generatePrivateKey, privateKeyToAddress } from "viem/accounts";
+import type { GetPaymasterDataParameters } from "viem/account-abstraction";
+import { createPaymasterClient } from "viem/account-abstraction";
+import type { KernelValidator, Signer } from "@zerodev/sdk/types";
+import {
+  addressToEmptyAccount,
+  createKernelAccount,
+  createKernelAccountClient,
+  createZeroDevPaymasterClient,
+  getERC20PaymasterApproveCall,
+  getUserOperationGasPrice,
+} from "@zerodev/sdk";
 import { get, set, del } from "idb-keyval";
-import type { KernelClient, SessionKeyAccount, WebAuthenticationKey } from "../types/passkeys-connector";
-import { WEB_AUTHENTICATION_MODE_KEY } from "../types/passkeys-connector";
+import type {
+  KernelClient,
+  PasskeysConnectFlow,
+  PasskeysPaymasterOptions,
+  PasskeysPublicClient,
+  PaymasterCall,
+  SessionKeyAccount,
+  WebAuthenticationKey,
+} from "../types/passkeys-connector";
+import { createPasskeysProvider } from "./passkeys-provider";
+import { toPasskeyError } from "./passkeys-errors";
+import { loginWithServer, registerWithServer } from "./passkeys-server";
+import type { SessionKeyPolicy, StoredSessionKey } from "./passkeys-session-keys";
+import type { PasskeyInfo } from "./passkeys-signers";
+import type { PasskeyAccountInfo, PasskeyAccountsState } from "./passkeys-accounts";
+import { getPasskeyAccounts, savePasskeyAccounts, toPasskeyAccountInfos } from "./passkeys-accounts";
+import type {
+  PasskeysRecoveryActions,
+  PendingRecovery,
+  RecoveryGuardianConfig,
+  RecoverySettings,
+  RecoveryProposal,
+} from "./passkeys-recovery";
+import {
+  CHANGE_ROOT_VALIDATOR_SELECTOR,
+  deletePendingRecovery,
+  deleteRecoverySettings,
+  encodeRecoveryCallData,
+  getGuardianInstallCall,
+  getPendingRecovery,
+  getRecoveredAccount,
+  getRecoveryApprovalCall,
+  getRecoveryApprovals,
+  getRecoverySettings,
+  hasGuardianApproved,
+  saveRecoveredAccount,
+  savePendingRecovery,
+  saveRecoverySettings,
+  toGuardianValidator,
+} from "./passkeys-recovery";
+import {
+  deleteEnrolledPasskey,
+  getEnrolledPasskeys,
+  saveEnrolledPasskey,
+  toEnrolledPasskeyValidator,
+  toPasskeyInfo,
+} from "./passkeys-signers";
+import {
+  deleteSessionKey,
+  getSessionKey,
+  getSessionKeys,
+  saveSessionKey,
+  toSessionKeyInfo,
+  toSessionKeyValidator,
+} from "./passkeys-session-keys";
 
 export interface PasskeysConnectorOptions {
   projectId: string;
   appName?: string;
   passkeyName?: string;
+  /** Paymaster used for every user operation unless a request supplies its own */
+  paymaster?: PasskeysPaymasterOptions;
+  /** WebAuthn registration and login server; defaults to ZeroDev's hosted server for `projectId` */
+  passkeyServerUrl?: string;
+  /** Extra headers sent with every passkey server request, e.g. an API key */
+  passkeyServerHeaders?: Record<string, string>;
+  /**
+   * ERC-4337 bundler RPC, one URL for every chain or one per chain; defaults to ZeroDev's bundler.
+   * A custom bundler only receives user operations, chain reads go through the wagmi transports.
+   */
+  bundlerUrl?: string | ((chainId: number) => string);
+  /** Extra headers sent with every bundler request */
+  bundlerHeaders?: Record<string, string>;
 }
 
+/**
+ * Builds the kernel client paymaster hooks plus any calls the paymaster requires before each batch
+ */
+function createKernelPaymaster(paymaster: PasskeysPaymasterOptions, chain: Chain, transport: Transport) {
+  const entryPoint = getEntryPoint("0.7");
+
+  if (paymaster.type === "custom") {
+    return {
+      paymaster: createPaymasterClient({ transport: http(paymaster.url) }),
+      paymasterContext: paymaster.context,
+      getPaymasterCalls: undefined,
+    };
+  }
+
+  const paymasterClient = createZeroDevPaymasterClient({ chain, transport });
+  const gasToken = paymaster.type === "erc20" ? paymaster.gasToken : undefined;
+
+  return {
+    paymaster: {
+      getPaymasterData: (userOperation: GetPaymasterDataParameters) =>
+        paymasterClient.sponsorUserOperation({ userOperation, gasToken }),
+    },
+    paymasterContext: undefined,
+    getPaymasterCalls:
+      paymaster.type === "erc20"
+        ? async (): Promise<readonly PaymasterCall[]> => [
+            await getERC20PaymasterApproveCall(paymasterClient, {
+              gasToken: paymaster.gasToken,
+              approveAmount: paymaster.approveAmount,
+              entryPoint,
+            }),
+          ]
+        : undefined,
+  };
+}
+
+/**
+ * Clients for one chain, built on first use and reused until the passkey or the active account changes
+ */
+interface ChainSession {
+  readonly publicClient: PasskeysPublicClient;
+  readonly getPaymasterCalls?: () => Promise<readonly PaymasterCall[]>;
+  readonly createClient: (account: SessionKeyAccount) => KernelClient;
+  readonly passkeyValidator: KernelValidator;
+  readonly kernelAccount: Awaited<SessionKeyAccount>;
+  readonly kernelClient: KernelClient;
+  /** Whether a recovery rotated the account on this chain to the passkey */
+  readonly isRecovered: boolean;
+}
+
+export const PASSKEY_CONNECTOR_NAME = "Passkey";
+
+/**
+ * Whether a wagmi connector is this passkey wallet, whose provider answers the `passkeys_*` methods
+ */
+export const isPasskeyConnector = (connector?: { readonly name: string } | null): boolean =>
+  connector?.name === PASSKEY_CONNECTOR_NAME;
+
 export function passkeysWalletConnector(options: PasskeysConnectorOptions) {
-  const { projectId, appName = "Passkeys App", passkeyName } = options;
+  const {
+    projectId,
+    appName = "Passkeys App",
+    passkeyName,
+    paymaster,
+    passkeyServerUrl = `https://passkeys.zerodev.app/api/v3/${projectId}`,
+    passkeyServerHeaders = {},
+    bundlerUrl,
+    bundlerHeaders,
+  } = options;
 
   const displayName = passkeyName || `${appName} - Passkey`;
 
   return createConnector((config) => {
     let kernelClient: KernelClient | undefined;
     let kernelAccount: Awaited<SessionKeyAccount> | undefined;
-    const passkeyServerUrl = `https://passkeys.zerodev.app/api/v3/${projectId}`;
+    let publicClient: PasskeysPublicClient | undefined;
+    let getPaymasterCalls: (() => Promise<readonly PaymasterCall[]>) | undefined;
+    let createClient: ((account: SessionKeyAccount) => KernelClient) | undefined;
+    let passkeyValidator: KernelValidator | undefined;
+    let primaryWebAuthnKey: Awaited<WebAuthenticationKey> | undefined;
+    /** Accounts derived from the connected passkey; undefined for a recovered account, which has a fixed address */
+    let passkeyAccounts: PasskeyAccountsState | undefined;
+    let sessionKey: { client: KernelClient; policy: SessionKeyPolicy; stored: StoredSessionKey } | undefined;
+    const chainSessions = new Map<number, Promise<ChainSession>>();
 
     const webAuthnStorageKey = `hw-webauthn-${projectId}`;
     const passkeyNameStorageKey = `hw-passkey-name-${projectId}`;
+    const callsStorageKey = `hw-calls-${projectId}`;
+    const userOperationsStorageKey = `hw-user-operations-${projectId}`;
+    const activityStorageKey = `hw-activity-${projectId}`;
+    const sessionKeyStorageKey = `hw-session-key-${projectId}`;
+    const enrolledPasskeysStorageKey = `hw-passkeys-${projectId}`;
+    const recoveryStorageKey = `hw-recovery-${projectId}`;
+    const pendingRecoveryStorageKey = `hw-pending-recovery-${projectId}`;
+    const recoveredAccountsStorageKey = `hw-recovered-accounts-${projectId}`;
+    const accountsStorageKey = `hw-accounts-${projectId}`;
+
+    const provider = createPasskeysProvider({
+      chains: config.chains,
+      callsStorageKey,
+      userOperationsStorageKey,
+      activityStorageKey,
+      sessionKeys: {
+        get: async () => (sessionKey ? toSessionKeyInfo(sessionKey.stored) : null),
+        list: listSessionKeys,
+        create: async (policy) => toSessionKeyInfo(await createSessionKey(policy)),
+        revoke: revokeSessionKey,
+      },
+      passkeys: {
+        list: listPasskeys,
+        add: addPasskey,
+        remove: removePasskey,
+      },
+      accounts: {
+        list: listAccounts,
+        create: createAccount,
+        switch: switchAccount,
+        rename: renameAccount,
+      },
+      recovery: {
+        get: async () => {
+          if (!kernelAccount || !publicClient) throw new Error("Kernel client not initialized. Connect first.");
+          return (await getRecoverySettings(recoveryStorageKey, kernelAccount.address, publicClient.chain.id)) ?? null;
+        },
+        setGuardians: setRecoveryGuardians,
+        removeGuardians: removeRecoveryGuardians,
+      },
+      getSession: async (chainId) => {
+        if (!kernelClient || !kernelAccount || !publicClient || !primaryWebAuthnKey) return undefined;
+        if (chainId === undefined || chainId === publicClient.chain.id) {
+          return {
+            kernelClient,
+            kernelAccount,
+            publicClient,
+            getPaymasterCalls,
+            sessionKey,
+            accounts: getAccountAddresses(kernelAccount.address),
+          };
+        }
 
-    async function createKernelAccountAndClient(webAuthnKey: Awaited<WebAuthenticationKey>, chainId?: number) {
-      const chain = config.chains.find((c) => c.id === chainId) || config.chains[0];
-      const bundlerTransport = http(`https://rpc.zerodev.app/api/v3/${projectId}/chain/${chain.id}`);
+        // Requests for another chain are signed by the passkey; session keys are scoped to the active chain
+        const chainSession = await getChainSession(primaryWebAuthnKey, getChain(chainId));
+        return {
+          kernelClient: chainSession.kernelClient,
+          kernelAccount: chainSession.kernelAccount,
+          publicClient: chainSession.publicClient,
+          getPaymasterCalls: chainSession.getPaymasterCalls,
+          accounts: getAccountAddresses(chainSession.kernelAccount.address),
+        };
+      },
+    });
+
+    function resetSession() {
+      kernelClient = undefined;
+      kernelAccount = undefined;
+      publicClient = undefined;
+      createClient = undefined;
+      passkeyValidator = undefined;
+      primaryWebAuthnKey = undefined;
+      passkeyAccounts = undefined;
+      sessionKey = undefined;
+      chainSessions.clear();
+    }
 
-      const publicClient = createPublicClient({
-        chain,
-        transport: bundlerTransport,
-        name: "Passkeys",
+    /**
+     * Addresses of every account the passkey controls, the active account first
+     */
+    function getAccountAddresses(active = kernelAccount?.address): `0x${string}`[] {
+      if (!active) return [];
+      const others = (passkeyAccounts?.accounts ?? [])
+        .map((account) => account.address)
+        .filter((address) => !isAddressEqual(address, active));
+      return [active, ...others];
+    }
+
+    async function listAccounts(): Promise<PasskeyAccountInfo[]> {
+      if (!kernelAccount) throw new Error("Kernel client not initialized. Connect first.");
+      if (!passkeyAccounts) {
+        return [{ index: 0, address: kernelAccount.address, label: "Recovered account", createdAt: 0, isActive: true }];
+      }
+      return toPasskeyAccountInfos(passkeyAccounts);
+    }
+
+    /**
+     * Derives the next kernel account owned by the connected passkey
+     */
+    async function createAccount(label?: string): Promise<PasskeyAccountInfo> {
+      if (!publicClient || !passkeyValidator || !primaryWebAuthnKey) {
+        throw new Error("Kernel client not initialized. Connect first.");
+      }
+      if (!passkeyAccounts) throw new Error("Recovered accounts cannot derive additional accounts");
+
+      const index = Math.max(...passkeyAccounts.accounts.map((account) => account.index)) + 1;
+      const { address } = await createKernelAccount(publicClient, {
+        entryPoint: getEntryPoint("0.7"),
+        kernelVersion: KERNEL_V3_1,
+        index: BigInt(index),
+        plugins: { sudo: passkeyValidator },
       });
+      const account = { index, address, label: label || `Account ${index + 1}`, createdAt: Date.now() };
 
-      const entryPoint = getEntryPoint("0.7");
+      passkeyAccounts = { ...passkeyAccounts, accounts: [...passkeyAccounts.accounts, account] };
+      await savePasskeyAccounts(accountsStorageKey, primaryWebAuthnKey.authenticatorId, passkeyAccounts);
+      config.emitter.emit("change", { accounts: getAccountAddresses() });
+      return { ...account, isActive: false };
+    }
 
-      const passkeyValidator = await toPasskeyValidator(publicClient, {
-        webAuthnKey,
-        entryPoint,
+    async function switchAccount(address: Address): Promise<void> {
+      if (!publicClient || !primaryWebAuthnKey) throw new Error("Kernel client not initialized. Connect first.");
+      if (!passkeyAccounts) throw new Error("Recovered accounts cannot switch accounts");
+
+      const account = passkeyAccounts.accounts.find((candidate) => isAddressEqual(candidate.address, address));
+      if (!account) throw new Error(`Account ${address} is not owned by this passkey`);
+      if (account.index === passkeyAccounts.activeIndex) return;
+
+      await savePasskeyAccounts(accountsStorageKey, primaryWebAuthnKey.authenticatorId, {
+        ...passkeyAccounts,
+        activeIndex: account.index,
+      });
+      chainSessions.clear();
+      const { accounts } = await createKernelAccountAndClient(primaryWebAuthnKey, publicClient.chain.id);
+      config.emitter.emit("change", { accounts });
+    }
+
+    async function renameAccount(address: Address, label: string): Promise<void> {
+      if (!primaryWebAuthnKey || !passkeyAccounts) throw new Error("Kernel client not initialized. Connect first.");
+
+      passkeyAccounts = {
+        ...passkeyAccounts,
+        accounts: passkeyAccounts.accounts.map((account) =>
+          isAddressEqual(account.address, address) ? { ...account, label } : account,
+        ),
+      };
+      await savePasskeyAccounts(accountsStorageKey, primaryWebAuthnKey.authenticatorId, passkeyAccounts);
+    }
+
+    /**
+     * Builds a client for the same account that signs with the session key.
+     * The passkey approves the key's policy once, on the first user operation it signs.
+     */
+    async function enableSessionKey(stored: StoredSessionKey) {
+      if (!kernelAccount || !publicClient || !passkeyValidator || !createClient) {
+        throw new Error("Kernel client not initialized. Connect first.");
+      }
+
+      const sessionKeyAccount = await createKernelAccount(publicClient, {
+        entryPoint: getEntryPoint("0.7"),
         kernelVersion: KERNEL_V3_1,
-        validatorContractVersion: PasskeyValidatorContractVersion.V0_0_2,
+        address: kernelAccount.address,
+        plugins: { sudo: passkeyValidator, regular: await toSessionKeyValidator(publicClient, stored) },
       });
 
-      kernelAccount = await createKernelAccount(publicClient, {
-        entryPoint,
+      sessionKey = { client: createClient(sessionKeyAccount), policy: stored.policy, stored };
+    }
+
+    /**
+     * Restores the active account's session key on the active chain. Expired keys are restored too: the policy stops
+     * them signing, but their validator stays installed until they are revoked.
+     */
+    async function restoreSessionKey() {
+      if (!kernelAccount || !publicClient) return;
+
+      const stored = await getSessionKey(sessionKeyStorageKey, kernelAccount.address, publicClient.chain.id);
+      if (stored) await enableSessionKey(stored);
+    }
+
+    /**
+     * Session keys of every account the passkey controls, on every chain, so ones that are not active can be found
+     * and revoked after switching to their account and chain
+     */
+    async function listSessionKeys() {
+      const accounts = getAccountAddresses();
+      return (await getSessionKeys(sessionKeyStorageKey))
+        .filter((stored) => accounts.some((account) => isAddressEqual(account, stored.accountAddress)))
+        .map(toSessionKeyInfo);
+    }
+
+    async function createSessionKey(policy: SessionKeyPolicy) {
+      if (!kernelAccount || !publicClient) throw new Error("Kernel client not initialized. Connect first.");
+      if (sessionKey) await revokeSessionKey();
+
+      const privateKey = generatePrivateKey();
+      const stored: StoredSessionKey = {
+        privateKey,
+        address: privateKeyToAddress(privateKey),
+        accountAddress: kernelAccount.address,
+        chainId: publicClient.chain.id,
+        policy,
+        createdAt: Date.now(),
+      };
+
+      await enableSessionKey(stored);
+      await saveSessionKey(sessionKeyStorageKey, stored);
+      return stored;
+    }
+
+    /**
+     * Uninstalls the session key's validator with a passkey-signed operation when it
+     * has been enabled on chain, then forgets the key locally
+     */
+    async function revokeSessionKey() {
+      if (!sessionKey) return;
+      if (!kernelClient?.account || !publicClient) throw new Error("Kernel client not initialized. Connect first.");
+
+      const validator = await toSessionKeyValidator(publicClient, sessionKey.stored);
+      const isDeployed = !!(await publicClient.getCode({ address: kernelClient.account.address }));
+      if (isDeployed && (await validator.isEnabled(kernelClient.account.address, "0x00000000"))) {
+        const userOpHash = await kernelClient.uninstallPlugin({ plugin: validator });
+        await kernelClient.waitForUserOperationReceipt({ hash: userOpHash });
+      }
+
+      const { accountAddress, chainId } = sessionKey.stored;
+      sessionKey = undefined;
+      await deleteSessionKey(sessionKeyStorageKey, accountAddress, chainId);
+    }
+
+    async function registerPasskey(name: string): Promise<Awaited<WebAuthenticationKey>> {
+      try {
+        return await registerWithServer({ serverUrl: passkeyServerUrl, headers: passkeyServerHeaders }, name);
+      } catch (error) {
+        throw toPasskeyError(error);
+      }
+    }
+
+    async function listPasskeys(): Promise<PasskeyInfo[]> {
+      if (!kernelAccount || !publicClient || !primaryWebAuthnKey) {
+        throw new Error("Kernel client not initialized. Connect first.");
+      }
+
+      const enrolled = await getEnrolledPasskeys(
+        enrolledPasskeysStorageKey,
+        kernelAccount.address,
+        publicClient.chain.id,
+      );
+      return [
+        {
+          id: primaryWebAuthnKey.authenticatorId,
+          name: (await get(passkeyNameStorageKey)) || displayName,
+          isPrimary: true,
+        },
+        ...enrolled.map(toPasskeyInfo),
+      ];
+    }
+
+    /**
+     * Registers a new passkey and installs it on the account. The new passkey signs an empty
+     * user operation whose enable data is approved by the primary passkey, so both are prompted once.
+     */
+    async function addPasskey(name: string): Promise<PasskeyInfo> {
+      if (!kernelAccount || !publicClient || !passkeyValidator || !createClient) {
+        throw new Error("Kernel client not initialized. Connect first.");
+      }
+
+      const webAuthnKey = await registerPasskey(name);
+      const enrollingAccount = await createKernelAccount(publicClient, {
+        entryPoint: getEntryPoint("0.7"),
         kernelVersion: KERNEL_V3_1,
-        plugins: { sudo: passkeyValidator },
+        address: kernelAccount.address,
+        plugins: { sudo: passkeyValidator, regular: await toEnrolledPasskeyValidator(publicClient, webAuthnKey) },
       });
+      const enrollingClient = createClient(enrollingAccount);
 
-      kernelClient = createKernelAccountClient({
-        account: kernelAccount,
-        chain,
-        client: publicClient,
-        bundlerTransport,
-        userOperation: {
-          estimateFeesPerGas: ({ bundlerClient }) => getUserOperationGasPrice(bundlerClient),
+      const userOpHash = await enrollingClient.sendUserOperation({
+        callData: await enrollingAccount.encodeCalls([
+          ...((await getPaymasterCalls?.()) ?? []),
+          { to: enrollingAccount.address, value: 0n, data: "0x" },
+        ]),
+      });
+      const { success } = await enrollingClient.waitForUserOperationReceipt({ hash: userOpHash });
+      if (!success) throw new Error("Failed to install passkey on the account");
+
+      const enrolled = {
+        id: webAuthnKey.authenticatorId,
+        name,
+        accountAddress: kernelAccount.address,
+        chainId: publicClient.chain.id,
+        webAuthnKey,
+        addedAt: Date.now(),
+      };
+      await saveEnrolledPasskey(enrolledPasskeysStorageKey, enrolled);
+      return toPasskeyInfo(enrolled);
+    }
+
+    /**
+     * Uninstalls an additional passkey with a user operation signed by the primary passkey
+     */
+    async function removePasskey(id: string): Promise<void> {
+      if (!kernelClient || !kernelAccount || !publicClient) {
+        throw new Error("Kernel client not initialized. Connect first.");
+      }
+
+      const enrolled = (
+        await getEnrolledPasskeys(enrolledPasskeysStorageKey, kernelAccount.address, publicClient.chain.id)
+      ).find((passkey) => passkey.id === id);
+      if (!enrolled) throw new Error("Passkey is not enrolled on this account");
+
+      const userOpHash = await kernelClient.uninstallPlugin({
+        plugin: await toEnrolledPasskeyValidator(publicClient, enrolled.webAuthnKey),
+      });
+      const { success } = await kernelClient.waitForUserOperationReceipt({ hash: userOpHash });
+      if (!success) throw new Error("Failed to remove passkey from the account");
+
+      await deleteEnrolledPasskey(enrolledPasskeysStorageKey, kernelAccount.address, publicClient.chain.id, id);
+    }
+
+    /**
+     * Installs or replaces the guardian addresses allowed to rotate the account's sudo passkey
+     */
+    async function setRecoveryGuardians(config: RecoveryGuardianConfig): Promise<RecoverySettings> {
+      if (!kernelClient?.account || !kernelAccount || !publicClient) {
+        throw new Error("Kernel client not initialized. Connect first.");
+      }
+
+      const { guardians, threshold, delaySeconds } = config;
+      const existing = await getRecoverySettings(recoveryStorageKey, kernelAccount.address, publicClient.chain.id);
+      const isUnchanged =
+        existing &&
+        existing.threshold === threshold &&
+        existing.delaySeconds === delaySeconds &&
+        existing.guardians.length === guardians.length &&
+        guardians.every((guardian) => existing.guardians.some((current) => isAddressEqual(current, guardian)));
+      // The guardians, threshold and delay are the validator's install data, so changing any of them reinstalls it
+      if (!isUnchanged) {
+        if (existing) await removeRecoveryGuardians();
+
+        const validator = await toGuardianValidator(publicClient, addressToEmptyAccount(guardians[0]), config);
+        const userOpHash = await kernelClient.sendUserOperation({
+          callData: await kernelClient.account.encodeCalls([
+            ...((await getPaymasterCalls?.()) ?? []),
+            await getGuardianInstallCall(kernelAccount.address, validator),
+          ]),
+        });
+        const { success } = await kernelClient.waitForUserOperationReceipt({ hash: userOpHash });
+        if (!success) throw new Error("Failed to install the recovery guardians");
+      }
+
+      const settings = {
+        accountAddress: kernelAccount.address,
+        chainId: publicClient.chain.id,
+        guardians,
+        threshold,
+        delaySeconds,
+        updatedAt: Date.now(),
+      };
+      await saveRecoverySettings(recoveryStorageKey, settings);
+      return settings;
+    }
+
+    async function removeRecoveryGuardians(): Promise<void> {
+      if (!kernelClient || !kernelAccount || !publicClient) {
+        throw new Error("Kernel client not initialized. Connect first.");
+      }
+
+      const existing = await getRecoverySettings(recoveryStorageKey, kernelAccount.address, publicClient.chain.id);
+      if (!existing) return;
+
+      const userOpHash = await kernelClient.uninstallPlugin({
+        plugin: await toGuardianValidator(publicClient, addressToEmptyAccount(existing.guardians[0]), existing),
+      });
+      const { success } = await kernelClient.waitForUserOperationReceipt({ hash: userOpHash });
+      if (!success) throw new Error("Failed to remove the recovery guardians");
+
+      await deleteRecoverySettings(recoveryStorageKey, kernelAccount.address, publicClient.chain.id);
+    }
+
+    function getChain(chainId: number): Chain {
+      const chain = config.chains.find((c) => c.id === chainId);
+      if (!chain) throw new Error(`Chain ${chainId} not supported`);
+      return chain;
+    }
+
+    /**
+     * Builds the public client and a kernel client factory for a chain without touching the session
+     */
+    function createChainClients(chain: Chain) {
+      const customBundlerUrl = typeof bundlerUrl === "function" ? bundlerUrl(chain.id) : bundlerUrl;
+      const bundlerTransport = http(
+        customBundlerUrl ?? `https://rpc.zerodev.app/api/v3/${projectId}/chain/${chain.id}`,
+        {
+          fetchOptions: bundlerHeaders ? { headers: bundlerHeaders } : undefined,
         },
+      );
+      const chainPublicClient: PasskeysPublicClient = createPublicClient({
+        chain,
+        transport: customBundlerUrl ? (config.transports?.[chain.id] ?? http()) : bundlerTransport,
+        name: "Passkeys",
       });
+      const kernelPaymaster = paymaster ? createKernelPaymaster(paymaster, chain, bundlerTransport) : undefined;
 
       return {
-        accounts: [kernelAccount.address as `0x${string}`],
-        chainId: chain.id,
+        publicClient: chainPublicClient,
+        getPaymasterCalls: kernelPaymaster?.getPaymasterCalls,
+        createClient: (account: SessionKeyAccount): KernelClient =>
+          createKernelAccountClient({
+            account,
+            chain,
+            client: chainPublicClient,
+            bundlerTransport,
+            paymaster: kernelPaymaster?.paymaster,
+            paymasterContext: kernelPaymaster?.paymasterContext,
+            // zd_getUserOperationGasPrice is specific to ZeroDev's bundler; others fall back to the node's fee estimate
+            userOperation: customBundlerUrl
+              ? undefined
+              : { estimateFeesPerGas: ({ bundlerClient }) => getUserOperationGasPrice(bundlerClient) },
+          }),
       };
     }
 
-    async function createPasskeyOwner(username: string) {
-      try {
-        const webAuthnKey = await toWebAuthnKey({
-          passkeyName: displayName,
-          passkeyServerUrl,
-          mode: WEB_AUTHENTICATION_MODE_KEY.LOGIN,
-          passkeyServerHeaders: {},
-        });
+    /**
+     * Time-locked recovery: a new passkey is registered when recovery is requested, the guardians approve the
+     * operation that makes it the sudo validator, and the guardian validator accepts that operation only once the
+     * threshold is met and the configured delay has passed. The owner can stop it in the meantime by removing the
+     * guardians. Backup passkeys can already sign for the account, so recovering with one is not delayed.
+     */
+    const recovery: PasskeysRecoveryActions = {
+      async getPendingRecovery(accountAddress, chainId) {
+        const pending = await getPendingRecovery(pendingRecoveryStorageKey, accountAddress, chainId);
+        return pending && withApprovals(pending);
+      },
+
+      async requestRecovery({ accountAddress, chainId, passkeyName: name }) {
+        getChain(chainId);
+        const webAuthnKey = await registerPasskey(name);
+        const pending = { accountAddress, chainId, webAuthnKey, passkeyName: name, requestedAt: Date.now() };
+        await savePendingRecovery(pendingRecoveryStorageKey, pending);
+        return pending;
+      },
 
-        const existingName = await get(passkeyNameStorageKey);
-        if (!existingName) {
-          await set(passkeyNameStorageKey, displayName);
+      async approveRecovery({ accountAddress, chainId, guardian }) {
+        const pending = await getPendingRecovery(pendingRecoveryStorageKey, accountAddress, chainId);
+        if (!pending) throw new Error("No recovery has been requested for this account");
+
+        const chain = getChain(chainId);
+        const chainClients = createChainClients(chain);
+        // Every guardian must approve the same call data and nonce, so only the first approval fixes them
+        let proposal: RecoveryProposal | undefined = pending.proposal;
+        if (!proposal) {
+          const guardianAccount = await createGuardianAccount(chainClients.publicClient, accountAddress, guardian);
+          proposal = {
+            callData: await encodeRecoveryCallData(
+              accountAddress,
+              await toEnrolledPasskeyValidator(chainClients.publicClient, pending.webAuthnKey),
+            ),
+            nonce: await guardianAccount.getNonce(),
+          };
+        } else if (
+          await hasGuardianApproved(chainClients.publicClient, accountAddress, proposal, guardian.account.address)
+        ) {
+          throw new Error("This guardian has already approved the recovery");
         }
 
-        return webAuthnKey;
-      } catch {
-        try {
-          await set(passkeyNameStorageKey, username);
+        const hash = await guardian.sendTransaction({
+          chain,
+          account: guardian.account,
+          ...getRecoveryApprovalCall(accountAddress, proposal),
+        });
+        const { status } = await chainClients.publicClient.waitForTransactionReceipt({ hash });
+        if (status !== "success") throw new Error("Guardian approval reverted");
 
-          return await toWebAuthnKey({
-            passkeyName: username,
-            passkeyServerUrl,
-            mode: WEB_AUTHENTICATION_MODE_KEY.REGISTER,
-            passkeyServerHeaders: {},
-          });
-        } catch (error) {
-          if (error instanceof Error && error.message.includes("cancelled")) {
-            throw new UserRejectedRequestError(error);
+        const approved = { ...pending, proposal };
+        await savePendingRecovery(pendingRecoveryStorageKey, approved);
+        return withApprovals(approved);
+      },
+
+      async executeRecovery({ accountAddress, chainId, guardian }) {
+        const stored = await getPendingRecovery(pendingRecoveryStorageKey, accountAddress, chainId);
+        if (!stored) throw new Error("No recovery has been requested for this account");
+
+        const chainClients = createChainClients(getChain(chainId));
+        const entryPoint = getEntryPoint("0.7");
+
+        let client: KernelClient;
+        let userOpHash: Hash;
+        if (guardian.type === "address") {
+          const pending = await withApprovals(stored);
+          if (!pending.proposal || pending.executableAt === undefined) {
+            throw new Error("Not enough guardians have approved this recovery yet");
           }
-          throw new Error("Failed to create or authenticate passkey");
+          if (pending.executableAt > Date.now()) {
+            throw new Error(`Recovery can be completed after ${new Date(pending.executableAt).toLocaleString()}`);
+          }
+
+          // The guardian validator may only call `changeRootValidator`, so the approved call is the whole call data
+          client = chainClients.createClient(
+            await createGuardianAccount(chainClients.publicClient, accountAddress, guardian.signer),
+          );
+          userOpHash = await client.sendUserOperation({
+            callData: pending.proposal.callData,
+            nonce: pending.proposal.nonce,
+          });
+        } else {
+          const recoveryCallData = await encodeRecoveryCallData(
+            accountAddress,
+            await toEnrolledPasskeyValidator(chainClients.publicClient, stored.webAuthnKey),
+          );
+          const backupAccount = await createKernelAccount(chainClients.publicClient, {
+            entryPoint,
+            kernelVersion: KERNEL_V3_1,
+            address: accountAddress,
+            plugins: {
+              regular: await toEnrolledPasskeyValidator(chainClients.publicClient, await loginPasskey()),
+            },
+          });
+          client = chainClients.createClient(backupAccount);
+          userOpHash = await client.sendUserOperation({
+            callData: await backupAccount.encodeCalls([
+              ...((await chainClients.getPaymasterCalls?.()) ?? []),
+              { to: accountAddress, value: 0n, data: recoveryCallData },
+            ]),
+          });
         }
+
+        const { success } = await client.waitForUserOperationReceipt({ hash: userOpHash });
+        if (!success) throw new Error("Recovery operation reverted");
+
+        await saveRecoveredAccount(recoveredAccountsStorageKey, {
+          authenticatorId: stored.webAuthnKey.authenticatorId,
+          accountAddress,
+          chainId,
+        });
+        await set(webAuthnStorageKey, stored.webAuthnKey);
+        await set(passkeyNameStorageKey, stored.passkeyName);
+        await deletePendingRecovery(pendingRecoveryStorageKey, accountAddress, chainId);
+      },
+
+      async cancelRecovery(accountAddress, chainId) {
+        await deletePendingRecovery(pendingRecoveryStorageKey, accountAddress, chainId);
+      },
+    };
+
+    /**
+     * Adds the guardians' approvals and when the guardian validator accepts the recovery, which only the chain knows
+     */
+    async function withApprovals(pending: PendingRecovery): Promise<PendingRecovery> {
+      if (!pending.proposal) return pending;
+      const { publicClient: chainPublicClient } = createChainClients(getChain(pending.chainId));
+      return {
+        ...pending,
+        ...(await getRecoveryApprovals(chainPublicClient, pending.accountAddress, pending.proposal)),
+      };
+    }
+
+    /**
+     * The account as seen through the guardian validator, which may only call `changeRootValidator`
+     */
+    async function createGuardianAccount(
+      chainPublicClient: PasskeysPublicClient,
+      accountAddress: Address,
+      signer: Signer,
+    ) {
+      return createKernelAccount(chainPublicClient, {
+        entryPoint: getEntryPoint("0.7"),
+        kernelVersion: KERNEL_V3_1,
+        address: accountAddress,
+        plugins: {
+          regular: await toGuardianValidator(chainPublicClient, signer),
+          action: { address: zeroAddress, selector: CHANGE_ROOT_VALIDATOR_SELECTOR },
+        },
+      });
+    }
+
+    async function loginPasskey(): Promise<Awaited<WebAuthenticationKey>> {
+      try {
+        return await loginWithServer({ serverUrl: passkeyServerUrl, headers: passkeyServerHeaders });
+      } catch (error) {
+        throw toPasskeyError(error);
       }
     }
 
+    /**
+     * Builds the validator, account and clients for a chain. Recovered accounts keep their address
+     * but are controlled by a permission validator; others use the passkey's active account index.
+     */
+    async function buildChainSession(webAuthnKey: Awaited<WebAuthenticationKey>, chain: Chain): Promise<ChainSession> {
+      const chainClients = createChainClients(chain);
+      const entryPoint = getEntryPoint("0.7");
+
+      const recovered = await getRecoveredAccount(recoveredAccountsStorageKey, webAuthnKey.authenticatorId, chain.id);
+      const validator = recovered
+        ? await toEnrolledPasskeyValidator(chainClients.publicClient, webAuthnKey)
+        : await toPasskeyValidator(chainClients.publicClient, {
+            webAuthnKey,
+            entryPoint,
+            kernelVersion: KERNEL_V3_1,
+            validatorContractVersion: PasskeyValidatorContractVersion.V0_0_2,
+          });
+      const storedAccounts = recovered
+        ? undefined
+        : await getPasskeyAccounts(accountsStorageKey, webAuthnKey.authenticatorId);
+
+      const account = await createKernelAccount(chainClients.publicClient, {
+        entryPoint,
+        kernelVersion: KERNEL_V3_1,
+        address: recovered?.accountAddress,
+        index: BigInt(storedAccounts?.activeIndex ?? 0),
+        plugins: { sudo: validator },
+      });
+
+      return {
+        ...chainClients,
+        passkeyValidator: validator,
+        kernelAccount: account,
+        kernelClient: chainClients.createClient(account),
+        isRecovered: !!recovered,
+      };
+    }
+
+    function getChainSession(webAuthnKey: Awaited<WebAuthenticationKey>, chain: Chain): Promise<ChainSession> {
+      const cached = chainSessions.get(chain.id);
+      if (cached) return cached;
+
+      const chainSession = buildChainSession(webAuthnKey, chain);
+      chainSessions.set(chain.id, chainSession);
+      // Forget failed builds so the next request retries
+      chainSession.catch(() => {
+        if (chainSessions.get(chain.id) === chainSession) chainSessions.delete(chain.id);
+      });
+      return chainSession;
+    }
+
+    async function createKernelAccountAndClient(webAuthnKey: Awaited<WebAuthenticationKey>, chainId?: number) {
+      const chain = config.chains.find((c) => c.id === chainId) || config.chains[0];
+      if (primaryWebAuthnKey && primaryWebAuthnKey.authenticatorId !== webAuthnKey.authenticatorId) {
+        chainSessions.clear();
+      }
+
+      const chainSession = await getChainSession(webAuthnKey, chain);
+      primaryWebAuthnKey = webAuthnKey;
+      publicClient = chainSession.publicClient;
+      getPaymasterCalls = chainSession.getPaymasterCalls;
+      createClient = chainSession.createClient;
+      passkeyValidator = chainSession.passkeyValidator;
+      kernelAccount = chainSession.kernelAccount;
+      kernelClient = chainSession.kernelClient;
+
+      const storedAccounts = chainSession.isRecovered
+        ? undefined
+        : await getPasskeyAccounts(accountsStorageKey, webAuthnKey.authenticatorId);
+      passkeyAccounts = storedAccounts;
+      if (!chainSession.isRecovered && !storedAccounts) {
+        passkeyAccounts = {
+          accounts: [{ index: 0, address: kernelAccount.address, label: "Account 1", createdAt: Date.now() }],
+          activeIndex: 0,
+        };
+        await savePasskeyAccounts(accountsStorageKey, webAuthnKey.authenticatorId, passkeyAccounts);
+      }
+
+      sessionKey = undefined;
+      await restoreSessionKey();
+
+      return {
+        accounts: getAccountAddresses(),
+        chainId: chain.id,
+      };
+    }
+
+    /**
+     * Runs the ceremony the user picked: registering creates a new passkey (and so a new wallet),
+     * logging in uses an existing one. Neither falls back to the other.
+     */
+    async function authenticatePasskey(flow: PasskeysConnectFlow): Promise<Awaited<WebAuthenticationKey>> {
+      if (flow.mode === "register") {
+        const webAuthnKey = await registerPasskey(flow.name);
+        await set(passkeyNameStorageKey, flow.name);
+        return webAuthnKey;
+      }
+
+      const webAuthnKey = await loginPasskey();
+      if (!(await get(passkeyNameStorageKey))) {
+        await set(passkeyNameStorageKey, displayName);
+      }
+      return webAuthnKey;
+    }
+
     return {
       id: "wallet-passkey",
-      name: "Passkey",
+      name: PASSKEY_CONNECTOR_NAME,
       type: "wallet-passkey" as const,
+      recovery,
 
       async setup() {
         try {
@@ -120,21 +884,21 @@ export function passkeysWalletConnector(options: PasskeysConnectorOptions) {
         }
       },
 
-      async connect({ chainId } = {}) {
+      async connect({
+        chainId,
+        passkey,
+      }: { chainId?: number; isReconnecting?: boolean; passkey?: PasskeysConnectFlow } = {}) {
         if (kernelClient && kernelAccount) {
           const chain = config.chains.find((c) => c.id === chainId) || config.chains[0];
           return {
-            accounts: [kernelAccount.address as `0x${string}`],
+            accounts: getAccountAddresses(),
             chainId: chain.id,
           };
         }
 
-        let webAuthnKey;
-        try {
-          webAuthnKey = await get(webAuthnStorageKey);
-          if (!webAuthnKey) throw new Error("No stored WebAuthn key found");
-        } catch {
-          webAuthnKey = await createPasskeyOwner("username");
+        let webAuthnKey = passkey ? undefined : await get<Awaited<WebAuthenticationKey>>(webAuthnStorageKey);
+        if (!webAuthnKey) {
+          webAuthnKey = await authenticatePasskey(passkey ?? { mode: "login" });
           await set(webAuthnStorageKey, webAuthnKey);
         }
 
@@ -144,10 +908,10 @@ export function passkeysWalletConnector(options: PasskeysConnectorOptions) {
       },
 
       async disconnect() {
-        kernelClient = undefined;
-        kernelAccount = undefined;
+        resetSession();
         await del(webAuthnStorageKey);
         await del(passkeyNameStorageKey);
+        // Session keys are kept: their validators stay installed, and reconnecting restores them for revoking
         config.emitter.emit("disconnect");
       },
 
@@ -162,7 +926,7 @@ export function passkeysWalletConnector(options: PasskeysConnectorOptions) {
       },
 
       async getAccounts() {
-        return kernelAccount ? [kernelAccount.address as `0x${string}`] : [];
+        return getAccountAddresses();
       },
 
       async getChainId() {
@@ -176,40 +940,7 @@ export function passkeysWalletConnector(options: PasskeysConnectorOptions) {
           throw new Error("Kernel client not initialized. Connect first.");
         }
 
-        return {
-          request: async (args: EIP1193Parameters<WalletRpcSchema>) => {
-            const { method, params } = args;
-            switch (method) {
-              case "eth_sendTransaction": {
-                if (!kernelClient?.account || !kernelAccount)
-                  throw new Error("Kernel client not initialized. Connect first.");
-                console.log("eth_sendTransaction", params);
-                if (!params || !Array.isArray(params)) {
-                  throw new Error("eth_sendTransaction missing transaction parameter");
-                }
-                const tx = params[0]! as TransactionRequest;
-                if (!tx || !tx.to) throw new Error("eth_sendTransaction missing tx params");
-
-                // Encode the call
-                const callData = await kernelClient.account.encodeCalls([
-                  {
-                    to: tx.to,
-                    value: tx.value,
-                    data: tx.data ?? "0x",
-                  },
-                ]);
-
-                // Send as user operation
-                const userOpHash = await kernelClient.sendUserOperation({ callData });
-
-                // Wait for bundler → actual tx
-                const receipt = await kernelClient.waitForUserOperationReceipt({ hash: userOpHash });
-
-                return receipt.receipt.transactionHash;
-              }
-            }
-          },
-        };
+        return provider;
       },
 
       async isAuthorized() {
@@ -223,13 +954,11 @@ export function passkeysWalletConnector(options: PasskeysConnectorOptions) {
         if (!chain) {
           throw new Error(`Chain ${chainId} not supported`);
         }
-        kernelClient = undefined;
-        kernelAccount = undefined;
 
-        // restore session on the new chain
-        const storedWebAuthnKey = await get(webAuthnStorageKey);
-        if (!storedWebAuthnKey) throw new Error("No stored WebAuthn key");
-        await createKernelAccountAndClient(storedWebAuthnKey, chainId);
+        // Activate the new chain's session, built on first use and cached afterwards
+        const webAuthnKey = primaryWebAuthnKey ?? (await get<Awaited<WebAuthenticationKey>>(webAuthnStorageKey));
+        if (!webAuthnKey) throw new Error("No stored WebAuthn key");
+        await createKernelAccountAndClient(webAuthnKey, chainId);
         config.emitter.emit("change", { chainId });
         return chain;
       },
@@ -247,8 +976,7 @@ export function passkeysWalletConnector(options: PasskeysConnectorOptions) {
       },
 
       onDisconnect() {
-        kernelClient = undefined;
-        kernelAccount = undefined;
+        resetSession();
         config.emitter.emit("disconnect");
       },
     };
@@ -0,0 +1,58 @@
+import { UserRejectedRequestError } from "viem";
+
+/**
+ * The user dismissed the browser's passkey prompt or the passkey name dialog.
+ * Extends `UserRejectedRequestError` so wagmi reports it as a rejection (code 4001).
+ */
+export class PasskeyCancelledError extends UserRejectedRequestError {
+  override name = "PasskeyCancelledError";
+
+  constructor(cause?: Error) {
+    super(cause ?? new Error("Passkey request cancelled"));
+  }
+}
+
+/**
+ * The passkey server does not recognise the credential the user signed in with
+ */
+export class PasskeyNotFoundError extends Error {
+  override name = "PasskeyNotFoundError";
+
+  constructor(readonly cause?: unknown) {
+    super("No wallet found for this passkey. Create a new wallet instead.");
+  }
+}
+
+/**
+ * The passkey server could not be reached or failed to complete the ceremony
+ */
+export class PasskeyServerError extends Error {
+  override name = "PasskeyServerError";
+
+  constructor(readonly cause?: unknown) {
+    super("The passkey server is unavailable. Please try again later.");
+  }
+}
+
+export type PasskeyError = PasskeyCancelledError | PasskeyNotFoundError | PasskeyServerError;
+
+const isCancellation = (error: Error): boolean =>
+  error.name === "NotAllowedError" || error.name === "AbortError" || error.message.includes("cancelled");
+
+/**
+ * Maps a failed passkey ceremony to a passkey error. The server calls already report an unknown credential
+ * and server failures, so what remains is either the user dismissing the prompt or an unexpected failure.
+ */
+export function toPasskeyError(error: unknown): PasskeyError {
+  if (
+    error instanceof PasskeyCancelledError ||
+    error instanceof PasskeyNotFoundError ||
+    error instanceof PasskeyServerError
+  ) {
+    return error;
+  }
+  if (!(error instanceof Error)) return new PasskeyServerError(error);
+
+  if (isCancellation(error)) return new PasskeyCancelledError(error);
+  return new PasskeyServerError(error);
+}
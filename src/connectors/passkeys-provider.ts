@@ -0,0 +1,978 @@
+import type {
+  Address,
+  Chain,
+  EIP1193Parameters,
+  Hash,
+  Hex,
+  RpcUserOperationReceipt,
+  TypedDataDefinition,
+  WalletCallReceipt,
+  WalletGetCallsStatusReturnType,
+  WalletRpcSchema,
+  WalletSendCallsParameters,
+} from "viem";
+import {
+  DuplicateIdError,
+  InvalidParamsRpcError,
+  MethodNotSupportedRpcError,
+  UnauthorizedProviderError,
+  UnknownBundleIdError,
+  UnsupportedChainIdError,
+  UnsupportedNonOptionalCapabilityError,
+  bytesToHex,
+  encodeFunctionData,
+  hexToBigInt,
+  hexToNumber,
+  isAddress,
+  isAddressEqual,
+  http,
+  numberToHex,
+  serializeErc6492Signature,
+  zeroAddress,
+} from "viem";
+import { createPaymasterClient, entryPoint07Abi } from "viem/account-abstraction";
+import type { KernelClient, PasskeysPublicClient, PaymasterCall, SessionKeyAccount } from "../types/passkeys-connector";
+import { getCallsBundle, saveCallsBundle } from "./passkeys-calls-store";
+import type { TrackedUserOperation } from "./passkeys-user-operation-store";
+import type { SessionKeyCall, SessionKeyInfo, SessionKeyPolicy } from "./passkeys-session-keys";
+import { isCallAllowed } from "./passkeys-session-keys";
+import type { PasskeyInfo } from "./passkeys-signers";
+import type { RecoveryGuardianConfig, RecoverySettings } from "./passkeys-recovery";
+import type { PasskeyAccountInfo } from "./passkeys-accounts";
+import { getUserOperation, isFinalUserOperationStatus, saveUserOperation } from "./passkeys-user-operation-store";
+import type { ActivityKind, ActivityRecord } from "./passkeys-activity-store";
+import {
+  describeCalls,
+  getActivity,
+  getActivityRecord,
+  saveActivity,
+  updateActivityStatus,
+} from "./passkeys-activity-store";
+import { openExplorerLink } from "../utils/explorer-links";
+import { getReplacementFees } from "../utils/replacement-fees";
+
+export interface PasskeysProviderSession {
+  readonly kernelClient: KernelClient;
+  readonly kernelAccount: Awaited<SessionKeyAccount>;
+  readonly publicClient: PasskeysPublicClient;
+  /** Calls the configured paymaster needs ahead of every batch, e.g. an ERC-20 approval */
+  readonly getPaymasterCalls?: () => Promise<readonly PaymasterCall[]>;
+  /** Client signing with the active session key, used for calls its policy allows */
+  readonly sessionKey?: { readonly client: KernelClient; readonly policy: SessionKeyPolicy };
+  /** Every account the passkey controls, the active account first */
+  readonly accounts: readonly Address[];
+}
+
+/**
+ * Whether the kernel account has been deployed on a chain; until then it exists only counterfactually
+ * and its first user operation carries the deployment
+ */
+export interface PasskeysDeploymentStatus {
+  readonly address: Address;
+  readonly chainId: number;
+  readonly isDeployed: boolean;
+}
+
+/**
+ * Gas of a user operation as quoted by the bundler, as hex quantities. The operation costs at most
+ * the sum of its gas limits times `maxFeePerGas`.
+ */
+export interface PasskeysUserOperationGasEstimate {
+  readonly callGasLimit: Hex;
+  readonly verificationGasLimit: Hex;
+  readonly preVerificationGas: Hex;
+  readonly paymasterVerificationGasLimit?: Hex;
+  readonly paymasterPostOpGasLimit?: Hex;
+  readonly maxFeePerGas: Hex;
+  readonly maxPriorityFeePerGas: Hex;
+  /** Whether a paymaster pays for the gas instead of the account's native balance */
+  readonly hasPaymaster: boolean;
+}
+
+/**
+ * Session key lifecycle, implemented by the connector
+ */
+export interface PasskeysSessionKeyController {
+  readonly get: () => Promise<SessionKeyInfo | null>;
+  /** Stored session keys of every account the passkey controls, on every chain */
+  readonly list: () => Promise<readonly SessionKeyInfo[]>;
+  readonly create: (policy: SessionKeyPolicy) => Promise<SessionKeyInfo>;
+  readonly revoke: () => Promise<void>;
+}
+
+/**
+ * Management of the passkeys that can sign for the account, implemented by the connector
+ */
+export interface PasskeysSignerController {
+  readonly list: () => Promise<PasskeyInfo[]>;
+  readonly add: (name: string) => Promise<PasskeyInfo>;
+  readonly remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Accounts derived from the connected passkey, implemented by the connector
+ */
+export interface PasskeysAccountController {
+  readonly list: () => Promise<PasskeyAccountInfo[]>;
+  readonly create: (label?: string) => Promise<PasskeyAccountInfo>;
+  readonly switch: (address: Address) => Promise<void>;
+  readonly rename: (address: Address, label: string) => Promise<void>;
+}
+
+/**
+ * Owner-side guardian configuration, implemented by the connector
+ */
+export interface PasskeysRecoveryController {
+  readonly get: () => Promise<RecoverySettings | null>;
+  readonly setGuardians: (config: RecoveryGuardianConfig) => Promise<RecoverySettings>;
+  readonly removeGuardians: () => Promise<void>;
+}
+
+/**
+ * The wallet's own `passkeys_*` methods: the params each takes and what it returns
+ */
+export interface PasskeysRpcSchema {
+  readonly passkeys_estimateUserOperationGas: {
+    readonly params: readonly [
+      tx: { readonly chainId?: Hex; readonly to: Address; readonly value?: Hex; readonly data?: Hex },
+    ];
+    readonly result: PasskeysUserOperationGasEstimate;
+  };
+  readonly passkeys_getSessionKey: { readonly params: readonly []; readonly result: SessionKeyInfo | null };
+  readonly passkeys_getSessionKeys: { readonly params: readonly []; readonly result: readonly SessionKeyInfo[] };
+  readonly passkeys_createSessionKey: {
+    readonly params: readonly [policy: SessionKeyPolicy];
+    readonly result: SessionKeyInfo;
+  };
+  readonly passkeys_revokeSessionKey: { readonly params: readonly []; readonly result: null };
+  readonly passkeys_getPasskeys: { readonly params: readonly []; readonly result: PasskeyInfo[] };
+  readonly passkeys_addPasskey: { readonly params: readonly [name: string]; readonly result: PasskeyInfo };
+  readonly passkeys_removePasskey: { readonly params: readonly [id: string]; readonly result: null };
+  readonly passkeys_getAccounts: { readonly params: readonly []; readonly result: PasskeyAccountInfo[] };
+  readonly passkeys_createAccount: { readonly params: readonly [label?: string]; readonly result: PasskeyAccountInfo };
+  readonly passkeys_switchAccount: { readonly params: readonly [address: Address]; readonly result: null };
+  readonly passkeys_renameAccount: {
+    readonly params: readonly [address: Address, label: string];
+    readonly result: null;
+  };
+  readonly passkeys_getRecoverySettings: { readonly params: readonly []; readonly result: RecoverySettings | null };
+  readonly passkeys_setRecoveryGuardians: {
+    readonly params: readonly [config: RecoveryGuardianConfig];
+    readonly result: RecoverySettings;
+  };
+  readonly passkeys_removeRecoveryGuardians: { readonly params: readonly []; readonly result: null };
+  readonly passkeys_getDeploymentStatus: {
+    readonly params: readonly [chainId?: Hex];
+    readonly result: PasskeysDeploymentStatus;
+  };
+  readonly passkeys_deployAccount: { readonly params: readonly [chainId?: Hex]; readonly result: Hash | null };
+  readonly passkeys_getUserOperationStatus: {
+    readonly params: readonly [hash: Hash];
+    readonly result: TrackedUserOperation;
+  };
+  readonly passkeys_speedUpUserOperation: { readonly params: readonly [hash: Hash]; readonly result: Hash };
+  readonly passkeys_cancelUserOperation: { readonly params: readonly [hash: Hash]; readonly result: Hash };
+  readonly passkeys_getActivity: { readonly params: readonly []; readonly result: ActivityRecord[] };
+}
+
+export type PasskeysRpcMethod = keyof PasskeysRpcSchema;
+
+/**
+ * Read-only methods that are answered by the chain rather than the wallet
+ */
+const PUBLIC_READ_METHODS = new Set([
+  "eth_blockNumber",
+  "eth_call",
+  "eth_estimateGas",
+  "eth_feeHistory",
+  "eth_gasPrice",
+  "eth_getBalance",
+  "eth_getBlockByHash",
+  "eth_getBlockByNumber",
+  "eth_getCode",
+  "eth_getLogs",
+  "eth_getStorageAt",
+  "eth_getTransactionCount",
+  "eth_maxPriorityFeePerGas",
+]);
+
+export interface PasskeysProviderOptions {
+  readonly chains: readonly Chain[];
+  /** IndexedDB key under which `wallet_sendCalls` bundles are persisted */
+  readonly callsStorageKey: string;
+  /** IndexedDB key under which submitted user operations are tracked */
+  readonly userOperationsStorageKey: string;
+  /** IndexedDB key under which the account's activity history is kept */
+  readonly activityStorageKey: string;
+  readonly sessionKeys: PasskeysSessionKeyController;
+  readonly passkeys: PasskeysSignerController;
+  readonly accounts: PasskeysAccountController;
+  readonly recovery: PasskeysRecoveryController;
+  /** Session for `chainId`, or for the active chain when omitted; undefined while disconnected */
+  readonly getSession: (chainId?: number) => Promise<PasskeysProviderSession | undefined>;
+}
+
+interface RpcCall {
+  readonly chainId?: Hex;
+  readonly to?: Address;
+  readonly value?: Hex;
+  readonly data?: Hex;
+}
+
+type RpcSendCallsRequest = WalletSendCallsParameters[number];
+
+/**
+ * ERC-7677 capability that lets a single request choose its own paymaster
+ */
+interface PaymasterServiceCapability {
+  readonly url: string;
+  readonly context?: unknown;
+}
+
+/**
+ * Capabilities the passkeys wallet honours in `wallet_sendCalls`
+ */
+const SUPPORTED_CAPABILITIES = new Set<string>(["paymasterService"]);
+
+/**
+ * EIP-5792 status codes for a call bundle
+ */
+const CALLS_STATUS = {
+  PENDING: 100,
+  CONFIRMED: 200,
+  REVERTED: 500,
+} as const;
+
+/**
+ * Wraps a signature in an ERC-6492 envelope when the account is not yet deployed,
+ * so verifiers can simulate the deployment before calling ERC-1271
+ */
+async function toVerifiableSignature(kernelAccount: Awaited<SessionKeyAccount>, signature: Hex): Promise<Hex> {
+  if (await kernelAccount.isDeployed()) return signature;
+
+  const { factory, factoryData } = await kernelAccount.getFactoryArgs();
+  if (!factory || !factoryData) return signature;
+
+  return serializeErc6492Signature({ address: factory, data: factoryData, signature });
+}
+
+function assertAccount(kernelAccount: Awaited<SessionKeyAccount>, address: unknown, method: string): void {
+  if (typeof address !== "string") {
+    throw new InvalidParamsRpcError(new Error(`${method} missing signer address`));
+  }
+  if (!isAddressEqual(address as Address, kernelAccount.address)) {
+    throw new UnauthorizedProviderError(new Error(`${method} requested for an account this wallet does not control`));
+  }
+}
+
+function getParams(method: string, params: unknown): readonly unknown[] {
+  if (!params || !Array.isArray(params)) {
+    throw new InvalidParamsRpcError(new Error(`${method} missing parameters`));
+  }
+  return params;
+}
+
+/**
+ * Encodes one or more calls, plus any the paymaster needs, into user operation call data and picks the
+ * client to submit it with. Single calls within the session key's policy go to the session key client.
+ */
+async function encodeCalls(
+  session: PasskeysProviderSession,
+  calls: readonly RpcCall[],
+  method: string,
+  paymasterService?: PaymasterServiceCapability,
+): Promise<{ client: KernelClient; callData: Hex }> {
+  const { kernelClient } = session;
+  if (!kernelClient.account) throw new Error("Kernel client not initialized. Connect first.");
+  if (calls.length === 0) throw new InvalidParamsRpcError(new Error(`${method} requires at least one call`));
+
+  const paymasterCalls = paymasterService ? [] : ((await session.getPaymasterCalls?.()) ?? []);
+  const decodedCalls: SessionKeyCall[] = [
+    ...paymasterCalls,
+    ...calls.map((call) => {
+      if (!call.to) throw new InvalidParamsRpcError(new Error(`${method} does not support contract deployment`));
+      return {
+        to: call.to,
+        value: call.value ? hexToBigInt(call.value) : 0n,
+        data: call.data ?? "0x",
+      };
+    }),
+  ];
+
+  const client =
+    session.sessionKey && decodedCalls.length === 1 && isCallAllowed(session.sessionKey.policy, decodedCalls[0])
+      ? session.sessionKey.client
+      : kernelClient;
+  if (!client.account) throw new Error("Kernel client not initialized. Connect first.");
+  return { client, callData: await client.account.encodeCalls(decodedCalls) };
+}
+
+/**
+ * Encodes one or more calls into a single user operation and submits it to the bundler.
+ * A per-request paymaster service replaces the connector's configured paymaster.
+ * Single calls within the session key's policy are signed silently by the session key.
+ */
+async function submitCalls(
+  session: PasskeysProviderSession,
+  calls: readonly RpcCall[],
+  method: string,
+  paymasterService?: PaymasterServiceCapability,
+): Promise<Hash> {
+  const { client, callData } = await encodeCalls(session, calls, method, paymasterService);
+  return client.sendUserOperation({ callData, ...getPaymasterOptions(paymasterService) });
+}
+
+/**
+ * User operation options that sponsor it through a per-request paymaster service instead of the configured one
+ */
+function getPaymasterOptions(paymasterService: PaymasterServiceCapability | undefined) {
+  if (!paymasterService) return {};
+  return {
+    paymaster: createPaymasterClient({ transport: http(paymasterService.url) }),
+    paymasterContext: paymasterService.context,
+  };
+}
+
+/**
+ * Asks the bundler for the gas limits and gas price of the user operation the calls would be submitted as.
+ * Bundlers other than ZeroDev's have no `zd_getUserOperationGasPrice`, so the node's fee estimate is used for them.
+ */
+async function estimateCalls(
+  session: PasskeysProviderSession,
+  calls: readonly RpcCall[],
+  method: string,
+): Promise<PasskeysUserOperationGasEstimate> {
+  const { client, callData } = await encodeCalls(session, calls, method);
+  const [gas, fees] = await Promise.all([
+    client.estimateUserOperationGas({ callData }),
+    client.getUserOperationGasPrice().catch(() => session.publicClient.estimateFeesPerGas()),
+  ]);
+
+  return {
+    callGasLimit: numberToHex(gas.callGasLimit),
+    verificationGasLimit: numberToHex(gas.verificationGasLimit),
+    preVerificationGas: numberToHex(gas.preVerificationGas),
+    paymasterVerificationGasLimit:
+      gas.paymasterVerificationGasLimit !== undefined ? numberToHex(gas.paymasterVerificationGasLimit) : undefined,
+    paymasterPostOpGasLimit:
+      gas.paymasterPostOpGasLimit !== undefined ? numberToHex(gas.paymasterPostOpGasLimit) : undefined,
+    maxFeePerGas: numberToHex(fees.maxFeePerGas),
+    maxPriorityFeePerGas: numberToHex(fees.maxPriorityFeePerGas),
+    hasPaymaster: client.paymaster !== undefined,
+  };
+}
+
+function getPaymasterService(
+  capabilities: Record<string, unknown> | undefined,
+): PaymasterServiceCapability | undefined {
+  const paymasterService = capabilities?.paymasterService as Partial<PaymasterServiceCapability> | undefined;
+  if (!paymasterService) return undefined;
+  if (typeof paymasterService.url !== "string") {
+    throw new InvalidParamsRpcError(new Error("paymasterService capability requires a url"));
+  }
+  return { url: paymasterService.url, context: paymasterService.context };
+}
+
+function assertCapabilities(capabilities: Record<string, unknown> | undefined): void {
+  for (const [name, capability] of Object.entries(capabilities ?? {})) {
+    const isOptional = (capability as { optional?: boolean } | undefined)?.optional === true;
+    if (!isOptional && !SUPPORTED_CAPABILITIES.has(name)) {
+      throw new UnsupportedNonOptionalCapabilityError(new Error(`Capability "${name}" is not supported`));
+    }
+  }
+}
+
+async function getUserOperationReceipt(kernelClient: KernelClient, hash: Hash) {
+  return (await kernelClient.request({
+    method: "eth_getUserOperationReceipt",
+    params: [hash],
+  })) as RpcUserOperationReceipt<"0.7"> | null;
+}
+
+async function getUserOperationBundleHash(kernelClient: KernelClient, hash: Hash): Promise<Hash | undefined> {
+  const userOperation = (await kernelClient.request({
+    method: "eth_getUserOperationByHash",
+    params: [hash],
+  })) as { transactionHash?: Hash | null } | null;
+  return userOperation?.transactionHash ?? undefined;
+}
+
+/**
+ * Asks the bundler how far a tracked user operation has progressed
+ */
+async function resolveUserOperation(
+  kernelClient: KernelClient,
+  operation: TrackedUserOperation,
+): Promise<TrackedUserOperation> {
+  if (isFinalUserOperationStatus(operation.status)) return operation;
+
+  const receipt = await getUserOperationReceipt(kernelClient, operation.hash);
+  if (receipt) {
+    return {
+      ...operation,
+      status: receipt.success ? "included" : "failed",
+      transactionHash: receipt.receipt.transactionHash,
+      error: receipt.success ? undefined : (receipt.reason ?? "User operation reverted"),
+      updatedAt: Date.now(),
+    };
+  }
+
+  const transactionHash = await getUserOperationBundleHash(kernelClient, operation.hash);
+  if (transactionHash && operation.status === "submitted") {
+    return { ...operation, status: "bundled", transactionHash, updatedAt: Date.now() };
+  }
+
+  return operation;
+}
+
+/**
+ * Creates an EIP-1193 provider backed by the passkey kernel account.
+ * The session getter is read on every request so chain switches are picked up, and requests
+ * naming a `chainId` are served by that chain's session even when it is not the active one.
+ */
+export function createPasskeysProvider({
+  chains,
+  callsStorageKey,
+  userOperationsStorageKey,
+  activityStorageKey,
+  sessionKeys,
+  passkeys,
+  accounts,
+  recovery,
+  getSession,
+}: PasskeysProviderOptions) {
+  async function requireSession(chainId?: number): Promise<PasskeysProviderSession> {
+    if (chainId !== undefined && !chains.some((chain) => chain.id === chainId)) {
+      throw new UnsupportedChainIdError(new Error(`Chain ${chainId} is not supported`));
+    }
+    const session = await getSession(chainId);
+    if (!session) throw new Error("Kernel client not initialized. Connect first.");
+    return session;
+  }
+
+  /**
+   * Records a submitted user operation for status polling and in the activity history.
+   * `calls` are the caller's calls, without any the paymaster added.
+   */
+  async function trackUserOperation(
+    session: PasskeysProviderSession,
+    hash: Hash,
+    method: string,
+    calls: readonly RpcCall[],
+    { kind, paymasterService }: { kind?: ActivityKind; paymasterService?: PaymasterServiceCapability } = {},
+  ): Promise<void> {
+    const now = Date.now();
+    const chainId = session.publicClient.chain.id;
+    const account = session.kernelAccount.address;
+    await saveUserOperation(userOperationsStorageKey, {
+      hash,
+      chainId,
+      sender: account,
+      status: "submitted",
+      paymasterService,
+      submittedAt: now,
+      updatedAt: now,
+    });
+
+    const described = describeCalls(
+      account,
+      calls.map((call) => ({
+        to: call.to ?? zeroAddress,
+        value: call.value ? hexToBigInt(call.value) : 0n,
+        data: call.data ?? "0x",
+      })),
+    );
+    await saveActivity(activityStorageKey, {
+      id: hash,
+      chainId,
+      account,
+      method,
+      ...described,
+      kind: kind ?? described.kind,
+      status: "submitted",
+      submittedAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async function getUserOperationStatus(hash: unknown) {
+    const operation =
+      typeof hash === "string" ? await getUserOperation(userOperationsStorageKey, hash as Hash) : undefined;
+    if (!operation) throw new InvalidParamsRpcError(new Error(`Unknown user operation ${String(hash)}`));
+    // Operations sent on a chain that is no longer configured cannot be looked up
+    if (!chains.some((chain) => chain.id === operation.chainId)) return operation;
+
+    const { kernelClient } = await requireSession(operation.chainId);
+    const resolved = await resolveUserOperation(kernelClient, operation);
+    if (resolved !== operation) {
+      await saveUserOperation(userOperationsStorageKey, resolved);
+      const { status, transactionHash, error, updatedAt } = resolved;
+      await updateActivityStatus(activityStorageKey, hash as Hash, { status, transactionHash, error, updatedAt });
+    }
+    return resolved;
+  }
+
+  /**
+   * Gets the account's activity, first refreshing entries that have not settled yet
+   */
+  async function getAccountActivity(session: PasskeysProviderSession): Promise<ActivityRecord[]> {
+    const records = await getActivity(activityStorageKey, session.kernelAccount.address);
+    const unsettled = records.filter(
+      (record) => !isFinalUserOperationStatus(record.status) && chains.some((chain) => chain.id === record.chainId),
+    );
+    if (unsettled.length === 0) return records;
+
+    // A bundler that is unreachable leaves the entry as it was
+    await Promise.allSettled(unsettled.map((record) => getUserOperationStatus(record.id)));
+    return getActivity(activityStorageKey, session.kernelAccount.address);
+  }
+
+  /**
+   * Resubmits a user operation that is still waiting in the bundler mempool with higher fees, keeping its paymaster.
+   * A speed-up reuses its nonce and calls. A cancellation is signed by the passkey, since a session key's policy
+   * would reject it: it replaces a passkey operation with a no-op, and invalidates a session key operation's nonce
+   * through the EntryPoint. Returns the replacement's hash.
+   */
+  async function replaceUserOperation(hash: unknown, method: string, isCancel: boolean): Promise<Hash> {
+    const tracked =
+      typeof hash === "string" ? await getUserOperation(userOperationsStorageKey, hash as Hash) : undefined;
+    if (!tracked) throw new InvalidParamsRpcError(new Error(`Unknown user operation ${String(hash)}`));
+
+    const session = await requireSession(tracked.chainId);
+    const operation = await getUserOperationStatus(tracked.hash);
+    if (operation.status !== "submitted") {
+      throw new Error("Only user operations that have not been bundled yet can be replaced");
+    }
+
+    const pending = await session.kernelClient.getUserOperation({ hash: operation.hash }).catch(() => undefined);
+    if (!pending) throw new Error("The bundler no longer has this user operation");
+    const { userOperation } = pending;
+
+    // The nonce key identifies the validator that signed the original
+    const nonceKey = userOperation.nonce >> 64n;
+    const sessionKeyClient = session.sessionKey?.client;
+    const sessionKeyNonce = await sessionKeyClient?.account?.getNonce();
+    const isSessionKeyOperation = sessionKeyNonce !== undefined && sessionKeyNonce >> 64n === nonceKey;
+    const client = sessionKeyClient && isSessionKeyOperation && !isCancel ? sessionKeyClient : session.kernelClient;
+    if (!client.account) throw new Error("Kernel client not initialized. Connect first.");
+
+    const { paymasterService } = operation;
+    const cancelCall: SessionKeyCall = isSessionKeyOperation
+      ? {
+          to: pending.entryPoint,
+          value: 0n,
+          data: encodeFunctionData({ abi: entryPoint07Abi, functionName: "incrementNonce", args: [nonceKey] }),
+        }
+      : { to: zeroAddress, value: 0n, data: "0x" };
+    // The original's call data already carries the paymaster's calls; a cancellation needs them again
+    const paymasterCalls = paymasterService ? [] : ((await session.getPaymasterCalls?.()) ?? []);
+
+    const currentFees = await client.getUserOperationGasPrice().catch(() => session.publicClient.estimateFeesPerGas());
+    const fees = getReplacementFees(userOperation, currentFees);
+    const replacementHash = await client.sendUserOperation({
+      callData: isCancel ? await client.account.encodeCalls([...paymasterCalls, cancelCall]) : userOperation.callData,
+      // A passkey cancellation of a session key operation uses the passkey's own nonce
+      nonce: isCancel && isSessionKeyOperation ? undefined : userOperation.nonce,
+      ...fees,
+      ...getPaymasterOptions(paymasterService),
+    });
+
+    const now = Date.now();
+    const replaced = { status: "failed" as const, error: `Replaced by ${replacementHash}`, updatedAt: now };
+    await saveUserOperation(userOperationsStorageKey, { ...operation, ...replaced });
+    await updateActivityStatus(activityStorageKey, operation.hash, replaced);
+
+    const original = await getActivityRecord(activityStorageKey, operation.hash);
+    if (isCancel || !original) {
+      const cancelCalls: RpcCall[] = [{ to: cancelCall.to, value: "0x0", data: cancelCall.data }];
+      await trackUserOperation(session, replacementHash, method, cancelCalls, { paymasterService });
+    } else {
+      await saveUserOperation(userOperationsStorageKey, {
+        hash: replacementHash,
+        chainId: operation.chainId,
+        sender: operation.sender,
+        status: "submitted",
+        paymasterService,
+        submittedAt: now,
+        updatedAt: now,
+      });
+      await saveActivity(activityStorageKey, {
+        ...original,
+        id: replacementHash,
+        method,
+        status: "submitted",
+        error: undefined,
+        submittedAt: now,
+        updatedAt: now,
+      });
+    }
+    return replacementHash;
+  }
+
+  /**
+   * Lets user operation hashes returned by `eth_sendTransaction` resolve like transaction hashes
+   */
+  async function forwardTransactionLookup(session: PasskeysProviderSession, method: string, params: unknown) {
+    const [hash] = getParams(method, params);
+    const operation =
+      typeof hash === "string" ? await getUserOperation(userOperationsStorageKey, hash as Hash) : undefined;
+    if (!operation) return session.publicClient.request({ method, params } as never);
+
+    const { chainId, transactionHash } = await getUserOperationStatus(hash);
+    if (!transactionHash) return null;
+    const { publicClient } = await requireSession(chainId);
+    return publicClient.request({ method, params: [transactionHash] } as never);
+  }
+
+  async function sendCalls(request: RpcSendCallsRequest | undefined) {
+    if (!request) throw new InvalidParamsRpcError(new Error("wallet_sendCalls missing request"));
+
+    const session = await requireSession(request.chainId ? hexToNumber(request.chainId) : undefined);
+    const chainId = session.publicClient.chain.id;
+    if (request.from) assertAccount(session.kernelAccount, request.from, "wallet_sendCalls");
+    if (!Array.isArray(request.calls) || request.calls.length === 0) {
+      throw new InvalidParamsRpcError(new Error("wallet_sendCalls requires at least one call"));
+    }
+    if (request.calls.some((call) => typeof call !== "object" || call === null)) {
+      throw new InvalidParamsRpcError(new Error("wallet_sendCalls calls must be objects"));
+    }
+    assertCapabilities(request.capabilities);
+    request.calls.forEach((call) => assertCapabilities(call.capabilities));
+
+    const id = request.id ?? bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+    if (await getCallsBundle(callsStorageKey, id)) {
+      throw new DuplicateIdError(new Error(`Call bundle ${id} already exists`));
+    }
+
+    const paymasterService = getPaymasterService(request.capabilities);
+    const userOpHash = await submitCalls(session, request.calls, "wallet_sendCalls", paymasterService);
+    await trackUserOperation(session, userOpHash, "wallet_sendCalls", request.calls, { paymasterService });
+    await saveCallsBundle(callsStorageKey, { id, chainId, userOpHash, createdAt: Date.now() });
+
+    return { id };
+  }
+
+  async function getCallsStatus(id: unknown): Promise<WalletGetCallsStatusReturnType> {
+    const bundle = typeof id === "string" ? await getCallsBundle(callsStorageKey, id) : undefined;
+    if (!bundle) throw new UnknownBundleIdError(new Error(`Unknown call bundle ${String(id)}`));
+
+    const { kernelClient } = await requireSession(bundle.chainId);
+    const userOpReceipt = await getUserOperationReceipt(kernelClient, bundle.userOpHash);
+    const receipts: WalletCallReceipt<Hex, Hex>[] | undefined = userOpReceipt
+      ? [
+          {
+            logs: userOpReceipt.logs,
+            status: userOpReceipt.success ? "0x1" : "0x0",
+            blockHash: userOpReceipt.receipt.blockHash,
+            blockNumber: userOpReceipt.receipt.blockNumber,
+            gasUsed: userOpReceipt.actualGasUsed,
+            transactionHash: userOpReceipt.receipt.transactionHash,
+          },
+        ]
+      : undefined;
+
+    return {
+      version: "2.0.0",
+      id: bundle.id,
+      chainId: numberToHex(bundle.chainId),
+      atomic: true,
+      status: !userOpReceipt
+        ? CALLS_STATUS.PENDING
+        : userOpReceipt.success
+          ? CALLS_STATUS.CONFIRMED
+          : CALLS_STATUS.REVERTED,
+      receipts,
+    };
+  }
+
+  async function showCallsStatus(session: PasskeysProviderSession, id: unknown): Promise<null> {
+    const status = await getCallsStatus(id);
+    const transactionHash = status.receipts?.[0]?.transactionHash;
+    const chainId = hexToNumber(status.chainId);
+
+    if (transactionHash) {
+      openExplorerLink(chainId, "tx", transactionHash);
+    } else {
+      openExplorerLink(chainId, "address", session.kernelAccount.address);
+    }
+    return null;
+  }
+
+  async function getDeploymentStatus(session: PasskeysProviderSession): Promise<PasskeysDeploymentStatus> {
+    return {
+      address: session.kernelAccount.address,
+      chainId: session.publicClient.chain.id,
+      isDeployed: await session.kernelAccount.isDeployed(),
+    };
+  }
+
+  /**
+   * Deploys the account with a no-op user operation, paid by the configured paymaster when there is one.
+   * Returns null when the account is already deployed.
+   */
+  async function deployAccount(session: PasskeysProviderSession): Promise<Hash | null> {
+    if (await session.kernelAccount.isDeployed()) return null;
+
+    const calls: RpcCall[] = [{ to: zeroAddress, value: "0x0", data: "0x" }];
+    const userOpHash = await submitCalls(session, calls, "passkeys_deployAccount");
+    await trackUserOperation(session, userOpHash, "passkeys_deployAccount", calls, { kind: "deployment" });
+    return userOpHash;
+  }
+
+  function getCapabilities(session: PasskeysProviderSession, params: unknown) {
+    const [address, chainIds] = (Array.isArray(params) ? params : []) as [Address | undefined, Hex[] | undefined];
+    if (address) assertAccount(session.kernelAccount, address, "wallet_getCapabilities");
+
+    const requested = chainIds
+      ? chains.filter((chain) => chainIds.some((chainId) => hexToNumber(chainId) === chain.id))
+      : chains;
+
+    return Object.fromEntries(
+      requested.map((chain) => [
+        numberToHex(chain.id),
+        { atomic: { status: "supported" }, paymasterService: { supported: true } },
+      ]),
+    );
+  }
+
+  return {
+    request: async (args: EIP1193Parameters<WalletRpcSchema>): Promise<unknown> => {
+      const { method, params } = args as { method: string; params?: unknown };
+      const session = await requireSession();
+      const { kernelAccount, publicClient } = session;
+
+      switch (method) {
+        case "eth_accounts":
+        case "eth_requestAccounts":
+          return session.accounts;
+
+        case "eth_chainId":
+          return numberToHex(publicClient.chain.id);
+
+        case "net_version":
+          return publicClient.chain.id.toString();
+
+        case "personal_sign": {
+          const [message, address] = getParams(method, params);
+          assertAccount(kernelAccount, address, method);
+          const signature = await kernelAccount.signMessage({ message: { raw: message as Hex } });
+          return toVerifiableSignature(kernelAccount, signature);
+        }
+
+        case "eth_sign": {
+          const [address, message] = getParams(method, params);
+          assertAccount(kernelAccount, address, method);
+          const signature = await kernelAccount.signMessage({ message: { raw: message as Hex } });
+          return toVerifiableSignature(kernelAccount, signature);
+        }
+
+        case "eth_signTypedData_v4": {
+          const [address, typedDataJson] = getParams(method, params);
+          assertAccount(kernelAccount, address, method);
+          const typedData = (
+            typeof typedDataJson === "string" ? JSON.parse(typedDataJson) : typedDataJson
+          ) as TypedDataDefinition;
+          // The EIP712Domain type is derived from the domain by the signer
+          const types = Object.fromEntries(Object.entries(typedData.types).filter(([name]) => name !== "EIP712Domain"));
+          const signature = await kernelAccount.signTypedData({
+            domain: typedData.domain,
+            types: types as TypedDataDefinition["types"],
+            primaryType: typedData.primaryType,
+            message: typedData.message,
+          } as TypedDataDefinition);
+          return toVerifiableSignature(kernelAccount, signature);
+        }
+
+        case "eth_sendTransaction": {
+          const [tx] = getParams(method, params) as readonly (RpcCall | undefined)[];
+          if (!tx || !tx.to) throw new InvalidParamsRpcError(new Error("eth_sendTransaction missing tx params"));
+
+          // Return as soon as the bundler accepts the operation; progress is reported
+          // through passkeys_getUserOperationStatus
+          const txSession = tx.chainId ? await requireSession(hexToNumber(tx.chainId)) : session;
+          const userOpHash = await submitCalls(txSession, [tx], method);
+          await trackUserOperation(txSession, userOpHash, method, [tx]);
+
+          return userOpHash;
+        }
+
+        case "passkeys_estimateUserOperationGas": {
+          const [tx] = getParams(method, params) as readonly (RpcCall | undefined)[];
+          if (!tx || !tx.to) throw new InvalidParamsRpcError(new Error(`${method} missing tx params`));
+
+          const txSession = tx.chainId ? await requireSession(hexToNumber(tx.chainId)) : session;
+          return estimateCalls(txSession, [tx], method);
+        }
+
+        case "passkeys_getSessionKey":
+          return sessionKeys.get();
+
+        case "passkeys_getSessionKeys":
+          return sessionKeys.list();
+
+        case "passkeys_createSessionKey": {
+          const [policy] = getParams(method, params) as readonly (Partial<SessionKeyPolicy> | undefined)[];
+          if (
+            !policy ||
+            typeof policy.validUntil !== "number" ||
+            (policy.permissions !== undefined && !Array.isArray(policy.permissions)) ||
+            (policy.tokenLimits !== undefined && !Array.isArray(policy.tokenLimits))
+          ) {
+            throw new InvalidParamsRpcError(new Error(`${method} requires a session key policy`));
+          }
+          // Token limits alone are a valid policy, so `permissions` may be left out
+          const sessionKeyPolicy: SessionKeyPolicy = {
+            ...policy,
+            validUntil: policy.validUntil,
+            permissions: policy.permissions ?? [],
+          };
+          if (sessionKeyPolicy.permissions.length + (sessionKeyPolicy.tokenLimits?.length ?? 0) === 0) {
+            throw new InvalidParamsRpcError(new Error(`${method} requires at least one permission`));
+          }
+          return sessionKeys.create(sessionKeyPolicy);
+        }
+
+        case "passkeys_revokeSessionKey":
+          await sessionKeys.revoke();
+          return null;
+
+        case "passkeys_getPasskeys":
+          return passkeys.list();
+
+        case "passkeys_addPasskey": {
+          const [name] = getParams(method, params) as readonly (string | undefined)[];
+          if (!name?.trim()) throw new InvalidParamsRpcError(new Error(`${method} requires a passkey name`));
+          return passkeys.add(name.trim());
+        }
+
+        case "passkeys_removePasskey": {
+          const [id] = getParams(method, params) as readonly (string | undefined)[];
+          if (!id) throw new InvalidParamsRpcError(new Error(`${method} requires a passkey id`));
+          await passkeys.remove(id);
+          return null;
+        }
+
+        case "passkeys_getAccounts":
+          return accounts.list();
+
+        case "passkeys_createAccount": {
+          const [label] = getParams(method, params);
+          if (label !== undefined && typeof label !== "string") {
+            throw new InvalidParamsRpcError(new Error(`${method} label must be a string`));
+          }
+          return accounts.create(label?.trim());
+        }
+
+        case "passkeys_switchAccount": {
+          const [address] = getParams(method, params);
+          if (typeof address !== "string" || !isAddress(address)) {
+            throw new InvalidParamsRpcError(new Error(`${method} requires an account address`));
+          }
+          await accounts.switch(address);
+          return null;
+        }
+
+        case "passkeys_renameAccount": {
+          const [address, label] = getParams(method, params);
+          if (typeof address !== "string" || !isAddress(address) || typeof label !== "string" || !label.trim()) {
+            throw new InvalidParamsRpcError(new Error(`${method} requires an account address and a label`));
+          }
+          await accounts.rename(address, label.trim());
+          return null;
+        }
+
+        case "passkeys_getRecoverySettings":
+          return recovery.get();
+
+        case "passkeys_setRecoveryGuardians": {
+          const [{ guardians, threshold, delaySeconds } = {}] = getParams(method, params) as readonly (
+            | { readonly guardians?: unknown; readonly threshold?: unknown; readonly delaySeconds?: unknown }
+            | undefined
+          )[];
+          if (
+            !Array.isArray(guardians) ||
+            guardians.length === 0 ||
+            !guardians.every((guardian): guardian is Address => typeof guardian === "string" && isAddress(guardian))
+          ) {
+            throw new InvalidParamsRpcError(new Error(`${method} requires at least one guardian address`));
+          }
+          if (new Set(guardians.map((guardian) => guardian.toLowerCase())).size !== guardians.length) {
+            throw new InvalidParamsRpcError(new Error(`${method} requires distinct guardians`));
+          }
+          if (guardians.some((guardian) => isAddressEqual(guardian, kernelAccount.address))) {
+            throw new InvalidParamsRpcError(new Error("The account cannot be its own guardian"));
+          }
+          if (typeof threshold !== "number" || !Number.isInteger(threshold) || threshold < 1) {
+            throw new InvalidParamsRpcError(new Error(`${method} requires a threshold of at least one`));
+          }
+          if (threshold > guardians.length) {
+            throw new InvalidParamsRpcError(new Error("The threshold cannot exceed the number of guardians"));
+          }
+          if (typeof delaySeconds !== "number" || delaySeconds < 0) {
+            throw new InvalidParamsRpcError(new Error(`${method} requires a non-negative delay`));
+          }
+          return recovery.setGuardians({ guardians, threshold, delaySeconds });
+        }
+
+        case "passkeys_removeRecoveryGuardians":
+          await recovery.removeGuardians();
+          return null;
+
+        case "passkeys_getDeploymentStatus": {
+          const [chainId] = (Array.isArray(params) ? params : []) as readonly (Hex | undefined)[];
+          return getDeploymentStatus(chainId ? await requireSession(hexToNumber(chainId)) : session);
+        }
+
+        case "passkeys_deployAccount": {
+          const [chainId] = (Array.isArray(params) ? params : []) as readonly (Hex | undefined)[];
+          return deployAccount(chainId ? await requireSession(hexToNumber(chainId)) : session);
+        }
+
+        case "passkeys_getUserOperationStatus": {
+          const [hash] = getParams(method, params);
+          return getUserOperationStatus(hash);
+        }
+
+        case "passkeys_speedUpUserOperation":
+        case "passkeys_cancelUserOperation": {
+          const [hash] = getParams(method, params);
+          return replaceUserOperation(hash, method, method === "passkeys_cancelUserOperation");
+        }
+
+        case "passkeys_getActivity":
+          return getAccountActivity(session);
+
+        case "eth_getTransactionByHash":
+        case "eth_getTransactionReceipt":
+          return forwardTransactionLookup(session, method, params);
+
+        case "wallet_sendCalls": {
+          const [request] = getParams(method, params) as readonly (RpcSendCallsRequest | undefined)[];
+          return sendCalls(request);
+        }
+
+        case "wallet_getCallsStatus": {
+          const [id] = getParams(method, params);
+          return getCallsStatus(id);
+        }
+
+        case "wallet_showCallsStatus": {
+          const [id] = getParams(method, params);
+          return showCallsStatus(session, id);
+        }
+
+        case "wallet_getCapabilities":
+          return getCapabilities(session, params);
+
+        default: {
+          if (PUBLIC_READ_METHODS.has(method)) {
+            return publicClient.request({ method, params } as never);
+          }
+          throw new MethodNotSupportedRpcError(new Error(`${method} is not supported by the passkeys wallet`), {
+            method,
+          });
+        }
+      }
+    },
+  };
+}
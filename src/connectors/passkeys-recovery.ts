@@ -0,0 +1,343 @@
+import { get, update } from "idb-keyval";
+import type { Account, Address, Chain, Hash, Hex, Transport, WalletClient } from "viem";
+import {
+  concatHex,
+  encodeAbiParameters,
+  encodeFunctionData,
+  getAbiItem,
+  keccak256,
+  pad,
+  parseAbi,
+  parseAbiParameters,
+  toFunctionSelector,
+  zeroAddress,
+} from "viem";
+import { KernelV3_1AccountAbi, getValidatorPluginInstallModuleData } from "@zerodev/sdk";
+import { getEntryPoint, KERNEL_V3_1, VALIDATOR_TYPE } from "@zerodev/sdk/constants";
+import type { KernelValidator, Signer } from "@zerodev/sdk/types";
+import { createWeightedECDSAValidator, getValidatorAddress } from "@zerodev/weighted-ecdsa-validator";
+import type { PasskeysPublicClient, WebAuthenticationKey } from "../types/passkeys-connector";
+
+/**
+ * The only function a guardian may call, so a guardian can hand the account to a new passkey but nothing else
+ */
+export const CHANGE_ROOT_VALIDATOR_SELECTOR = toFunctionSelector(
+  getAbiItem({ abi: KernelV3_1AccountAbi, name: "changeRootValidator" }),
+);
+
+/**
+ * ZeroDev's weighted ECDSA validator, which holds the guardians, their threshold and the recovery delay on chain
+ */
+const GUARDIAN_VALIDATOR_ADDRESS = getValidatorAddress(getEntryPoint("0.7"), KERNEL_V3_1);
+
+const GUARDIAN_VALIDATOR_ABI = parseAbi([
+  "function approve(bytes32 callDataAndNonceHash, address kernel)",
+  "function proposalStatus(bytes32 callDataAndNonceHash, address kernel) view returns (uint8 status, uint48 validAfter)",
+  "function voteStatus(bytes32 callDataAndNonceHash, address guardian, address kernel) view returns (uint8 status)",
+  "function getApproval(address kernel, bytes32 hash) view returns (uint256 approvals, bool passed)",
+  "function weightedStorage(address kernel) view returns (uint24 totalWeight, uint24 threshold, uint48 delay, address firstGuardian)",
+]);
+
+/** The validator's `ProposalStatus` values */
+const PROPOSAL_STATUS = { approved: 1, rejected: 2 } as const;
+
+/** The validator's `VoteStatus` value for a guardian that approved */
+const VOTE_STATUS_APPROVED = 1;
+
+/**
+ * Who may approve a recovery. Every guardian has a weight of one, so `threshold` is the number of
+ * guardians that must approve.
+ */
+export interface RecoveryGuardianConfig {
+  readonly guardians: readonly Address[];
+  readonly threshold: number;
+  /** Time between the guardians approving a recovery and it taking effect, in seconds, enforced by the validator */
+  readonly delaySeconds: number;
+}
+
+/**
+ * Owner-side recovery configuration of an account on a chain; backup passkeys can act as guardians too
+ */
+export interface RecoverySettings extends RecoveryGuardianConfig {
+  readonly accountAddress: Address;
+  readonly chainId: number;
+  readonly updatedAt: number;
+}
+
+/**
+ * The recovery operation the guardians approve on chain. The validator only accepts this exact call data and nonce.
+ */
+export interface RecoveryProposal {
+  readonly callData: Hex;
+  readonly nonce: bigint;
+}
+
+/**
+ * A recovery requested from the recovery page, waiting for enough guardians to approve and then for the delay to pass
+ */
+export interface PendingRecovery {
+  readonly accountAddress: Address;
+  readonly chainId: number;
+  /** The passkey that becomes the account's sudo validator */
+  readonly webAuthnKey: WebAuthenticationKey;
+  readonly passkeyName: string;
+  readonly requestedAt: number;
+  /** Set once the first guardian has approved the recovery; the others approve the same proposal */
+  readonly proposal?: RecoveryProposal;
+  /** Guardians that approved so far and how many must, read from chain rather than stored */
+  readonly approvals?: { readonly count: number; readonly threshold: number };
+  /** When the validator starts accepting the approved operation, read from chain rather than stored */
+  readonly executableAt?: number;
+}
+
+/**
+ * An account whose sudo validator was rotated to a new passkey, so logging in with that
+ * passkey must use the recorded address instead of deriving one from the key
+ */
+export interface RecoveredAccount {
+  readonly authenticatorId: string;
+  readonly accountAddress: Address;
+  readonly chainId: number;
+}
+
+/**
+ * A guardian's wallet, which signs and pays for its approval transaction
+ */
+export type RecoveryGuardianWallet = WalletClient<Transport, Chain, Account>;
+
+export type RecoveryGuardianSigner =
+  | { readonly type: "address"; readonly signer: Signer }
+  | { readonly type: "passkey" };
+
+/**
+ * Recovery flow exposed on the connector, usable without connecting
+ */
+export interface PasskeysRecoveryActions {
+  readonly getPendingRecovery: (accountAddress: Address, chainId: number) => Promise<PendingRecovery | undefined>;
+  readonly requestRecovery: (args: {
+    readonly accountAddress: Address;
+    readonly chainId: number;
+    readonly passkeyName: string;
+  }) => Promise<PendingRecovery>;
+  readonly approveRecovery: (args: {
+    readonly accountAddress: Address;
+    readonly chainId: number;
+    readonly guardian: RecoveryGuardianWallet;
+  }) => Promise<PendingRecovery>;
+  readonly executeRecovery: (args: {
+    readonly accountAddress: Address;
+    readonly chainId: number;
+    readonly guardian: RecoveryGuardianSigner;
+  }) => Promise<void>;
+  readonly cancelRecovery: (accountAddress: Address, chainId: number) => Promise<void>;
+}
+
+const toRecordKey = (accountAddress: Address, chainId: number): string => `${chainId}:${accountAddress.toLowerCase()}`;
+
+export async function getRecoverySettings(
+  storageKey: string,
+  accountAddress: Address,
+  chainId: number,
+): Promise<RecoverySettings | undefined> {
+  const settings = await get<Record<string, RecoverySettings>>(storageKey);
+  return settings?.[toRecordKey(accountAddress, chainId)];
+}
+
+export async function saveRecoverySettings(storageKey: string, settings: RecoverySettings): Promise<void> {
+  await update<Record<string, RecoverySettings>>(storageKey, (current) => ({
+    ...current,
+    [toRecordKey(settings.accountAddress, settings.chainId)]: settings,
+  }));
+}
+
+export async function deleteRecoverySettings(storageKey: string, accountAddress: Address, chainId: number) {
+  const key = toRecordKey(accountAddress, chainId);
+  await update<Record<string, RecoverySettings>>(storageKey, (current) =>
+    Object.fromEntries(Object.entries(current ?? {}).filter(([entry]) => entry !== key)),
+  );
+}
+
+export async function getPendingRecovery(
+  storageKey: string,
+  accountAddress: Address,
+  chainId: number,
+): Promise<PendingRecovery | undefined> {
+  const pending = await get<Record<string, PendingRecovery>>(storageKey);
+  return pending?.[toRecordKey(accountAddress, chainId)];
+}
+
+export async function savePendingRecovery(storageKey: string, pending: PendingRecovery): Promise<void> {
+  await update<Record<string, PendingRecovery>>(storageKey, (current) => ({
+    ...current,
+    [toRecordKey(pending.accountAddress, pending.chainId)]: pending,
+  }));
+}
+
+export async function deletePendingRecovery(storageKey: string, accountAddress: Address, chainId: number) {
+  const key = toRecordKey(accountAddress, chainId);
+  await update<Record<string, PendingRecovery>>(storageKey, (current) =>
+    Object.fromEntries(Object.entries(current ?? {}).filter(([entry]) => entry !== key)),
+  );
+}
+
+export async function getRecoveredAccount(
+  storageKey: string,
+  authenticatorId: string,
+  chainId: number,
+): Promise<RecoveredAccount | undefined> {
+  const accounts = await get<readonly RecoveredAccount[]>(storageKey);
+  return accounts?.find((account) => account.authenticatorId === authenticatorId && account.chainId === chainId);
+}
+
+export async function saveRecoveredAccount(storageKey: string, recovered: RecoveredAccount): Promise<void> {
+  await update<readonly RecoveredAccount[]>(storageKey, (accounts) => [
+    ...(accounts ?? []).filter(
+      (account) => account.authenticatorId !== recovered.authenticatorId || account.chainId !== recovered.chainId,
+    ),
+    recovered,
+  ]);
+}
+
+/**
+ * Builds the weighted ECDSA validator through which `signer`, one of the guardians, signs recovery operations. It
+ * accepts an operation only after `threshold` guardians approved it on chain and `delaySeconds` passed since. The
+ * guardian configuration is the install data, so it is only needed when installing.
+ */
+export async function toGuardianValidator(
+  publicClient: PasskeysPublicClient,
+  signer: Signer,
+  config?: RecoveryGuardianConfig,
+) {
+  return createWeightedECDSAValidator(publicClient, {
+    config: config && {
+      threshold: config.threshold,
+      signers: config.guardians.map((address) => ({ address, weight: 1 })),
+      delay: config.delaySeconds,
+    },
+    signers: [signer],
+    entryPoint: getEntryPoint("0.7"),
+    kernelVersion: KERNEL_V3_1,
+  });
+}
+
+/**
+ * Hash under which the guardian validator tracks its approval of an operation
+ */
+const getProposalHash = (accountAddress: Address, { callData, nonce }: RecoveryProposal): Hash =>
+  keccak256(encodeAbiParameters(parseAbiParameters("address, bytes, uint256"), [accountAddress, callData, nonce]));
+
+/**
+ * Encodes the transaction in which a guardian approves a recovery, sent from the guardian's own wallet
+ */
+export function getRecoveryApprovalCall(
+  accountAddress: Address,
+  proposal: RecoveryProposal,
+): { to: Address; data: Hex } {
+  return {
+    to: GUARDIAN_VALIDATOR_ADDRESS,
+    data: encodeFunctionData({
+      abi: GUARDIAN_VALIDATOR_ABI,
+      functionName: "approve",
+      args: [getProposalHash(accountAddress, proposal), accountAddress],
+    }),
+  };
+}
+
+/**
+ * Reads how many guardians approved a recovery and, once enough have, when the guardian validator starts accepting
+ * it, in milliseconds. Throws once the account has vetoed it.
+ */
+export async function getRecoveryApprovals(
+  publicClient: PasskeysPublicClient,
+  accountAddress: Address,
+  proposal: RecoveryProposal,
+): Promise<Pick<PendingRecovery, "approvals" | "executableAt">> {
+  const hash = getProposalHash(accountAddress, proposal);
+  const [[status, validAfter], [count], [, threshold]] = await Promise.all([
+    publicClient.readContract({
+      address: GUARDIAN_VALIDATOR_ADDRESS,
+      abi: GUARDIAN_VALIDATOR_ABI,
+      functionName: "proposalStatus",
+      args: [hash, accountAddress],
+    }),
+    publicClient.readContract({
+      address: GUARDIAN_VALIDATOR_ADDRESS,
+      abi: GUARDIAN_VALIDATOR_ABI,
+      functionName: "getApproval",
+      args: [accountAddress, hash],
+    }),
+    publicClient.readContract({
+      address: GUARDIAN_VALIDATOR_ADDRESS,
+      abi: GUARDIAN_VALIDATOR_ABI,
+      functionName: "weightedStorage",
+      args: [accountAddress],
+    }),
+  ]);
+  if (status === PROPOSAL_STATUS.rejected) throw new Error("The account owner rejected this recovery");
+  return {
+    approvals: { count: Number(count), threshold },
+    executableAt: status === PROPOSAL_STATUS.approved ? validAfter * 1000 : undefined,
+  };
+}
+
+/**
+ * Whether a guardian already approved a recovery; the validator counts each guardian once
+ */
+export async function hasGuardianApproved(
+  publicClient: PasskeysPublicClient,
+  accountAddress: Address,
+  proposal: RecoveryProposal,
+  guardian: Address,
+): Promise<boolean> {
+  const status = await publicClient.readContract({
+    address: GUARDIAN_VALIDATOR_ADDRESS,
+    abi: GUARDIAN_VALIDATOR_ABI,
+    functionName: "voteStatus",
+    args: [getProposalHash(accountAddress, proposal), guardian, accountAddress],
+  });
+  return status === VOTE_STATUS_APPROVED;
+}
+
+/**
+ * Encodes the self-call that installs the guardian validator with access to `changeRootValidator` only
+ */
+export async function getGuardianInstallCall(
+  accountAddress: Address,
+  guardianValidator: KernelValidator,
+): Promise<{ to: Address; value: bigint; data: Hex }> {
+  const { type, address, data } = await getValidatorPluginInstallModuleData({
+    plugin: guardianValidator,
+    entryPoint: getEntryPoint("0.7"),
+    kernelVersion: KERNEL_V3_1,
+    action: { selector: CHANGE_ROOT_VALIDATOR_SELECTOR },
+  });
+
+  return {
+    to: accountAddress,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: KernelV3_1AccountAbi,
+      functionName: "installModule",
+      args: [BigInt(type), address, data],
+    }),
+  };
+}
+
+/**
+ * Encodes the `changeRootValidator` call a guardian submits as the user operation's call data
+ */
+export async function encodeRecoveryCallData(accountAddress: Address, sudoValidator: KernelValidator): Promise<Hex> {
+  return encodeFunctionData({
+    abi: KernelV3_1AccountAbi,
+    functionName: "changeRootValidator",
+    args: [
+      concatHex([
+        VALIDATOR_TYPE[sudoValidator.validatorType],
+        pad(sudoValidator.getIdentifier(), { size: 20, dir: "right" }),
+      ]),
+      zeroAddress,
+      await sudoValidator.getEnableData(accountAddress),
+      "0x",
+    ],
+  });
+}
@@ -0,0 +1,112 @@
+import { startAuthentication, startRegistration } from "@simplewebauthn/browser";
+import { b64ToBytes, uint8ArrayToHexString } from "@zerodev/webauthn-key";
+import { keccak256 } from "viem";
+import type { WebAuthenticationKey } from "../types/passkeys-connector";
+import { PasskeyNotFoundError, PasskeyServerError } from "./passkeys-errors";
+
+export interface PasskeyServerOptions {
+  readonly serverUrl: string;
+  readonly headers?: Record<string, string>;
+}
+
+/**
+ * Posts to the passkey server. Unreachable servers, error statuses and non-JSON bodies become a
+ * `PasskeyServerError`, except a 404 from `/login/verify`, which is how the server reports an unknown credential.
+ */
+async function post<T>({ serverUrl, headers }: PasskeyServerOptions, path: string, body: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${serverUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      credentials: "include",
+    });
+  } catch (error) {
+    throw new PasskeyServerError(error);
+  }
+
+  if (response.status === 404 && path === "/login/verify") {
+    throw new PasskeyNotFoundError(new Error(await response.text().catch(() => "Unknown credential")));
+  }
+  if (!response.ok) {
+    throw new PasskeyServerError(new Error(`${path} responded with ${response.status}`));
+  }
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    throw new PasskeyServerError(error);
+  }
+}
+
+/**
+ * Derives the validator key from the credential's SPKI public key, as `toWebAuthnKey` does
+ */
+async function toKey(publicKey: string, authenticatorId: string): Promise<Awaited<WebAuthenticationKey>> {
+  const key = await crypto.subtle.importKey(
+    "spki",
+    b64ToBytes(publicKey),
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["verify"],
+  );
+  // Uncompressed point: 0x04 followed by the 32-byte x and y coordinates
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", key));
+  return {
+    pubX: BigInt(uint8ArrayToHexString(raw.subarray(1, 33))),
+    pubY: BigInt(uint8ArrayToHexString(raw.subarray(33))),
+    authenticatorId,
+    authenticatorIdHash: keccak256(uint8ArrayToHexString(b64ToBytes(authenticatorId))),
+    rpID: "",
+  };
+}
+
+/**
+ * Registers a new passkey with the server. Same ceremony as `toWebAuthnKey` in register mode, with the
+ * server's replies checked so failures are reported as such.
+ */
+export async function registerWithServer(
+  server: PasskeyServerOptions,
+  passkeyName: string,
+): Promise<Awaited<WebAuthenticationKey>> {
+  const { userId, options } = await post<{ userId?: string; options?: Parameters<typeof startRegistration>[0] }>(
+    server,
+    "/register/options",
+    { username: passkeyName },
+  );
+  if (!userId || !options) throw new PasskeyServerError(new Error("Malformed registration options"));
+
+  const credential = await startRegistration(options);
+  const { verified } = await post<{ verified?: boolean }>(server, "/register/verify", {
+    userId,
+    username: passkeyName,
+    cred: credential,
+  });
+  if (verified !== true) throw new PasskeyServerError(new Error("Registration not verified"));
+  if (!credential.response.publicKey) {
+    throw new PasskeyServerError(new Error("The browser did not report a public key"));
+  }
+
+  return toKey(credential.response.publicKey, credential.id);
+}
+
+/**
+ * Signs in with an existing passkey. The server answering that it does not know the credential, or that the
+ * assertion does not verify against it, is a `PasskeyNotFoundError`; any other failure is a `PasskeyServerError`.
+ */
+export async function loginWithServer(server: PasskeyServerOptions): Promise<Awaited<WebAuthenticationKey>> {
+  const options = await post<Parameters<typeof startAuthentication>[0]>(server, "/login/options", {});
+  if (!options?.challenge) throw new PasskeyServerError(new Error("Malformed login options"));
+
+  const credential = await startAuthentication(options);
+  const result = await post<{ verification?: { verified?: boolean }; pubkey?: string }>(server, "/login/verify", {
+    cred: credential,
+  });
+  if (typeof result.verification?.verified !== "boolean") {
+    throw new PasskeyServerError(new Error("Malformed login verification"));
+  }
+  if (!result.verification.verified) throw new PasskeyNotFoundError(new Error("Login not verified"));
+  if (!result.pubkey) throw new PasskeyServerError(new Error("The server did not return the public key"));
+
+  return toKey(result.pubkey, credential.id);
+}
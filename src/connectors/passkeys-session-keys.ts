@@ -0,0 +1,175 @@
+import { get, update } from "idb-keyval";
+import type { Address, Hex } from "viem";
+import { decodeFunctionData, erc20Abi, isAddressEqual, slice } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { getEntryPoint, KERNEL_V3_1 } from "@zerodev/sdk/constants";
+import { toPermissionValidator } from "@zerodev/permissions";
+import { toECDSASigner } from "@zerodev/permissions/signers";
+import { CallPolicyVersion, ParamCondition, toCallPolicy, toTimestampPolicy } from "@zerodev/permissions/policies";
+import type { PasskeysPublicClient } from "../types/passkeys-connector";
+
+/**
+ * An address the session key may call: one function on it, or plain value transfers when no selector is given
+ */
+export interface SessionKeyPermission {
+  readonly target: Address;
+  /**
+   * 4-byte function selector. When omitted, only calls without calldata are allowed: the on-chain call policy
+   * stores a missing selector as {@link NO_FUNCTION_SELECTOR} rather than as a wildcard.
+   */
+  readonly selector?: Hex;
+  /** Maximum native value per call, in wei */
+  readonly valueLimit?: bigint;
+}
+
+/**
+ * Cap on the amount a single ERC-20 `transfer` may move
+ */
+export interface SessionKeyTokenLimit {
+  readonly token: Address;
+  readonly maxAmount: bigint;
+}
+
+export interface SessionKeyPolicy {
+  readonly permissions: readonly SessionKeyPermission[];
+  readonly tokenLimits?: readonly SessionKeyTokenLimit[];
+  /** Unix timestamp in seconds after which the key is rejected on chain */
+  readonly validUntil: number;
+}
+
+export interface StoredSessionKey {
+  readonly privateKey: Hex;
+  readonly address: Address;
+  readonly accountAddress: Address;
+  readonly chainId: number;
+  readonly policy: SessionKeyPolicy;
+  readonly createdAt: number;
+}
+
+/**
+ * Public view of a session key, safe to hand to the UI
+ */
+export type SessionKeyInfo = Omit<StoredSessionKey, "privateKey">;
+
+export interface SessionKeyCall {
+  readonly to: Address;
+  readonly value: bigint;
+  readonly data: Hex;
+}
+
+/** Selector the call policy matches for calls that carry no calldata */
+export const NO_FUNCTION_SELECTOR: Hex = "0x00000000";
+
+export const toSessionKeyInfo = ({
+  address,
+  accountAddress,
+  chainId,
+  policy,
+  createdAt,
+}: StoredSessionKey): SessionKeyInfo => ({ address, accountAddress, chainId, policy, createdAt });
+
+export const isSessionKeyExpired = (policy: SessionKeyPolicy): boolean => policy.validUntil * 1000 <= Date.now();
+
+const toRecordKey = (accountAddress: Address, chainId: number): string => `${chainId}:${accountAddress.toLowerCase()}`;
+
+/**
+ * Gets the session key stored for an account on a chain
+ */
+export async function getSessionKey(
+  storageKey: string,
+  accountAddress: Address,
+  chainId: number,
+): Promise<StoredSessionKey | undefined> {
+  const sessionKeys = await get<Record<string, StoredSessionKey>>(storageKey);
+  return sessionKeys?.[toRecordKey(accountAddress, chainId)];
+}
+
+/**
+ * Gets every stored session key, including expired ones whose validator is still installed
+ */
+export async function getSessionKeys(storageKey: string): Promise<StoredSessionKey[]> {
+  const sessionKeys = await get<Record<string, StoredSessionKey>>(storageKey);
+  return Object.values(sessionKeys ?? {});
+}
+
+export async function saveSessionKey(storageKey: string, sessionKey: StoredSessionKey): Promise<void> {
+  await update<Record<string, StoredSessionKey>>(storageKey, (current) => ({
+    ...current,
+    [toRecordKey(sessionKey.accountAddress, sessionKey.chainId)]: sessionKey,
+  }));
+}
+
+export async function deleteSessionKey(storageKey: string, accountAddress: Address, chainId: number) {
+  const key = toRecordKey(accountAddress, chainId);
+  await update<Record<string, StoredSessionKey>>(storageKey, (current) =>
+    Object.fromEntries(Object.entries(current ?? {}).filter(([entry]) => entry !== key)),
+  );
+}
+
+/**
+ * Checks a call against the policy before handing it to the session key,
+ * so calls the on-chain policy would reject fall back to the passkey instead
+ */
+export function isCallAllowed(policy: SessionKeyPolicy, call: SessionKeyCall): boolean {
+  if (isSessionKeyExpired(policy)) return false;
+
+  // Token limits replace any broader permission on the same token
+  const tokenLimit = policy.tokenLimits?.find((limit) => isAddressEqual(limit.token, call.to));
+  if (tokenLimit) {
+    if (call.value > 0n) return false;
+    try {
+      const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: call.data });
+      return functionName === "transfer" && args[1] <= tokenLimit.maxAmount;
+    } catch {
+      return false;
+    }
+  }
+
+  // Calldata too short to hold a selector matches no permission
+  if (call.data.length > 2 && call.data.length < 10) return false;
+  const selector = call.data.length >= 10 ? slice(call.data, 0, 4) : NO_FUNCTION_SELECTOR;
+  const permission = policy.permissions.find(
+    (candidate) =>
+      isAddressEqual(candidate.target, call.to) &&
+      (candidate.selector ?? NO_FUNCTION_SELECTOR).toLowerCase() === selector.toLowerCase(),
+  );
+  return !!permission && call.value <= (permission.valueLimit ?? 0n);
+}
+
+/**
+ * Builds the permission validator that enforces a session key's policy on chain
+ */
+export async function toSessionKeyValidator(publicClient: PasskeysPublicClient, sessionKey: StoredSessionKey) {
+  const { policy } = sessionKey;
+  const signer = await toECDSASigner({ signer: privateKeyToAccount(sessionKey.privateKey) });
+
+  const tokenPermissions = (policy.tokenLimits ?? []).map((limit) => ({
+    target: limit.token,
+    abi: erc20Abi,
+    functionName: "transfer" as const,
+    args: [null, { condition: ParamCondition.LESS_THAN_OR_EQUAL, value: limit.maxAmount }] as const,
+  }));
+  const limitedTokens = new Set(tokenPermissions.map((permission) => permission.target.toLowerCase()));
+
+  return toPermissionValidator(publicClient, {
+    entryPoint: getEntryPoint("0.7"),
+    kernelVersion: KERNEL_V3_1,
+    signer,
+    policies: [
+      toCallPolicy({
+        policyVersion: CallPolicyVersion.V0_0_4,
+        permissions: [
+          ...policy.permissions
+            .filter((permission) => !limitedTokens.has(permission.target.toLowerCase()))
+            .map((permission) => ({
+              target: permission.target,
+              selector: permission.selector ?? NO_FUNCTION_SELECTOR,
+              valueLimit: permission.valueLimit ?? 0n,
+            })),
+          ...tokenPermissions,
+        ],
+      }),
+      toTimestampPolicy({ validUntil: policy.validUntil }),
+    ],
+  });
+}
@@ -0,0 +1,100 @@
+import { get, update } from "idb-keyval";
+import type { Address } from "viem";
+import { isAddressEqual } from "viem";
+import { getEntryPoint, KERNEL_V3_1 } from "@zerodev/sdk/constants";
+import { toPermissionValidator } from "@zerodev/permissions";
+import { toWebAuthnSigner, WebAuthnSignerVersion } from "@zerodev/permissions/signers";
+import { toSudoPolicy } from "@zerodev/permissions/policies";
+import type { PasskeysPublicClient, WebAuthenticationKey } from "../types/passkeys-connector";
+
+/**
+ * An additional passkey installed on a kernel account next to its sudo passkey
+ */
+export interface EnrolledPasskey {
+  /** WebAuthn credential id */
+  readonly id: string;
+  readonly name: string;
+  readonly accountAddress: Address;
+  readonly chainId: number;
+  readonly webAuthnKey: WebAuthenticationKey;
+  readonly addedAt: number;
+}
+
+/**
+ * Public view of a passkey that can sign for the account, safe to hand to the UI
+ */
+export interface PasskeyInfo {
+  readonly id: string;
+  readonly name: string;
+  /** Whether this is the sudo passkey the account was created with, which cannot be removed */
+  readonly isPrimary: boolean;
+  readonly addedAt?: number;
+}
+
+type EnrolledPasskeyRecord = Record<string, EnrolledPasskey>;
+
+/**
+ * The same passkey can be enrolled on several accounts and chains, so records are keyed by all three
+ */
+const toRecordKey = (accountAddress: Address, chainId: number, id: string): string =>
+  `${chainId}:${accountAddress.toLowerCase()}:${id}`;
+
+export const toPasskeyInfo = ({ id, name, addedAt }: EnrolledPasskey): PasskeyInfo => ({
+  id,
+  name,
+  isPrimary: false,
+  addedAt,
+});
+
+/**
+ * Gets the additional passkeys enrolled for an account on a chain, oldest first
+ */
+export async function getEnrolledPasskeys(
+  storageKey: string,
+  accountAddress: Address,
+  chainId: number,
+): Promise<EnrolledPasskey[]> {
+  const passkeys = await get<EnrolledPasskeyRecord>(storageKey);
+  return Object.values(passkeys ?? {})
+    .filter((passkey) => passkey.chainId === chainId && isAddressEqual(passkey.accountAddress, accountAddress))
+    .sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export async function saveEnrolledPasskey(storageKey: string, passkey: EnrolledPasskey): Promise<void> {
+  await update<EnrolledPasskeyRecord>(storageKey, (passkeys) => ({
+    ...passkeys,
+    [toRecordKey(passkey.accountAddress, passkey.chainId, passkey.id)]: passkey,
+  }));
+}
+
+export async function deleteEnrolledPasskey(
+  storageKey: string,
+  accountAddress: Address,
+  chainId: number,
+  id: string,
+): Promise<void> {
+  const recordKey = toRecordKey(accountAddress, chainId, id);
+  await update<EnrolledPasskeyRecord>(storageKey, (passkeys) =>
+    Object.fromEntries(Object.entries(passkeys ?? {}).filter(([key]) => key !== recordKey)),
+  );
+}
+
+/**
+ * Builds the validator for an additional passkey. The passkey validator contract holds a
+ * single key per account, so extra passkeys are installed as permission validators with a
+ * WebAuthn signer and a sudo policy, which gives them the same authority as the primary passkey.
+ */
+export async function toEnrolledPasskeyValidator(
+  publicClient: PasskeysPublicClient,
+  webAuthnKey: WebAuthenticationKey,
+) {
+  return toPermissionValidator(publicClient, {
+    entryPoint: getEntryPoint("0.7"),
+    kernelVersion: KERNEL_V3_1,
+    signer: await toWebAuthnSigner(publicClient, {
+      webAuthnKey,
+      webAuthnSignerVersion: WebAuthnSignerVersion.V0_0_2,
+    }),
+    policies: [toSudoPolicy({})],
+  });
+}
@@ -0,0 +1,47 @@
+import { get, update } from "idb-keyval";
+import type { Address, Hash } from "viem";
+
+/**
+ * Lifecycle of a user operation after it leaves the wallet:
+ * - `submitted`: accepted by the bundler mempool
+ * - `bundled`: included in a bundle transaction that is not yet mined
+ * - `included`: mined and executed successfully
+ * - `failed`: mined but reverted
+ */
+export type UserOperationStatus = "submitted" | "bundled" | "included" | "failed";
+
+export interface TrackedUserOperation {
+  readonly hash: Hash;
+  readonly chainId: number;
+  readonly sender: Address;
+  readonly status: UserOperationStatus;
+  readonly transactionHash?: Hash;
+  readonly error?: string;
+  /** ERC-7677 paymaster service the request chose, reused when the operation is replaced */
+  readonly paymasterService?: { readonly url: string; readonly context?: unknown };
+  readonly submittedAt: number;
+  readonly updatedAt: number;
+}
+
+type TrackedUserOperationRecord = Record<Hash, TrackedUserOperation>;
+
+export const isFinalUserOperationStatus = (status: UserOperationStatus): boolean =>
+  status === "included" || status === "failed";
+
+/**
+ * Gets a tracked user operation by its hash
+ */
+export async function getUserOperation(storageKey: string, hash: Hash): Promise<TrackedUserOperation | undefined> {
+  const operations = await get<TrackedUserOperationRecord>(storageKey);
+  return operations?.[hash];
+}
+
+/**
+ * Inserts or replaces a tracked user operation
+ */
+export async function saveUserOperation(storageKey: string, operation: TrackedUserOperation): Promise<void> {
+  await update<TrackedUserOperationRecord>(storageKey, (operations) => ({
+    ...operations,
+    [operation.hash]: operation,
+  }));
+}
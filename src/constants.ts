@@ -140,4 +140,4 @@ export const USDT_ABI = [
     stateMutability: "nonpayable",
     type: "function",
   },
-];
+] as const;
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import type { Hash } from "viem";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+import { useUserOperationStatus } from "@/hooks/use-user-operation-status";
+
+export interface UseAccountDeploymentReturn {
+  /** Undefined while loading or when the connected wallet is not a passkey smart account */
+  readonly isDeployed?: boolean;
+  readonly isLoading: boolean;
+  readonly deploy: () => Promise<Hash | null>;
+  /** True from submitting the deployment until it is included or fails */
+  readonly isDeploying: boolean;
+  readonly error?: string;
+}
+
+/**
+ * Hook to check whether the passkey account is deployed on the current chain and to deploy it explicitly
+ */
+export const useAccountDeployment = (): UseAccountDeploymentReturn => {
+  const { connector, address, chainId } = useAccount();
+  const queryClient = useQueryClient();
+  const { isPasskey, request } = usePasskeysRequest();
+  const queryKey = ["accountDeployment", connector?.uid, address, chainId];
+  const [deployHash, setDeployHash] = useState<Hash>();
+
+  const { data: status, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => request("passkeys_getDeploymentStatus"),
+    enabled: isPasskey && !!address,
+  });
+
+  const deploy = useMutation({
+    mutationFn: () => request("passkeys_deployAccount"),
+    onSuccess: (hash) => {
+      if (hash) setDeployHash(hash);
+      else queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const deployment = useUserOperationStatus(deployHash);
+
+  // Re-check once the deployment lands, whichever way it went
+  useEffect(() => {
+    if (!deployHash || deployment.isPending) return;
+    queryClient.invalidateQueries({ queryKey: ["accountDeployment"] });
+  }, [deployHash, deployment.isPending, queryClient]);
+
+  return {
+    isDeployed: status?.isDeployed,
+    isLoading,
+    deploy: deploy.mutateAsync,
+    isDeploying: deploy.isPending || deployment.isPending,
+    error: deploy.error?.message ?? deployment.error,
+  };
+};
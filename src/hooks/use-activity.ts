@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, useChainId, useConfig, usePublicClient } from "wagmi";
+import { getTransactionReceipt } from "wagmi/actions";
+import type { ActivityRecord } from "@/connectors/passkeys-activity-store";
+import { isFinalUserOperationStatus } from "@/connectors/passkeys-user-operation-store";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+import { useTokenRegistry } from "@/hooks/use-token-registry";
+import { getSendHistory, toActivityRecord, updateSendRecord, type SendRecord } from "@/utils/send-history";
+import { getIndexedTransfers, indexTransfers, mergeTransfersIntoActivity } from "@/utils/transfer-indexer";
+
+const POLLING_INTERVAL_MS = 5_000;
+const TRANSFER_INDEX_INTERVAL_MS = 30_000;
+
+const isPendingSend = (record: SendRecord): boolean => !record.replacedBy && !isFinalUserOperationStatus(record.status);
+
+export interface UseActivityReturn {
+  readonly activity: readonly ActivityRecord[];
+  readonly isLoading: boolean;
+  /** Whether transfer logs are being scanned for the current chain */
+  readonly isIndexing: boolean;
+  readonly error: Error | null;
+  readonly refetch: () => void;
+}
+
+/**
+ * Hook to list the connected account's activity across chains: the user operations a passkey wallet
+ * sent, or the transfers other wallets sent from the Send view, merged with the ERC-20 transfers found
+ * in the logs of the registry's tokens. Polls while anything is still pending.
+ */
+export const useActivity = (): UseActivityReturn => {
+  const { connector, address } = useAccount();
+  const config = useConfig();
+  const chainId = useChainId();
+  const publicClient = usePublicClient({ chainId });
+  const { tokens } = useTokenRegistry(chainId);
+  const { isPasskey, request } = usePasskeysRequest();
+  const tokenAddresses = tokens.map((token) => token.address);
+
+  const {
+    data: operations,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ["activity", connector?.uid, address],
+    queryFn: () => request("passkeys_getActivity"),
+    enabled: isPasskey && !!address,
+    refetchInterval: (query) =>
+      query.state.data?.some((record) => !isFinalUserOperationStatus(record.status)) ? POLLING_INTERVAL_MS : false,
+  });
+
+  // Other wallets keep their own history, so only what was sent from this app is known
+  const {
+    data: sends,
+    error: sendsError,
+    refetch: refetchSends,
+  } = useQuery({
+    queryKey: ["sendActivity", address],
+    queryFn: async () => {
+      // The Send view only follows a transfer while it is open, so pending ones are checked here as well
+      const pending = (await getSendHistory(address!)).filter(isPendingSend);
+      await Promise.allSettled(
+        pending.map(async (record) => {
+          const receipt = await getTransactionReceipt(config, {
+            hash: record.hash,
+            chainId: record.chainId as (typeof config)["chains"][number]["id"],
+          });
+          await updateSendRecord(record.hash, {
+            status: receipt.status === "success" ? "included" : "failed",
+            transactionHash: receipt.transactionHash,
+          });
+        }),
+      );
+      return getSendHistory(address!);
+    },
+    enabled: !isPasskey && !!address,
+    refetchInterval: (query) => (query.state.data?.some(isPendingSend) ? POLLING_INTERVAL_MS : false),
+  });
+
+  const {
+    data: transfers,
+    isFetching: isIndexing,
+    error: indexError,
+    refetch: refetchTransfers,
+  } = useQuery({
+    queryKey: ["transferIndex", chainId, address, tokenAddresses.join()],
+    queryFn: async () => {
+      await indexTransfers(publicClient!, address!, tokenAddresses);
+      return getIndexedTransfers(address!);
+    },
+    enabled: !!address && !!publicClient && tokenAddresses.length > 0,
+    refetchInterval: TRANSFER_INDEX_INTERVAL_MS,
+  });
+
+  return {
+    activity: mergeTransfersIntoActivity(
+      isPasskey ? (operations ?? []) : (sends ?? []).map(toActivityRecord),
+      transfers ?? [],
+    ),
+    isLoading,
+    isIndexing,
+    error: error ?? sendsError ?? indexError,
+    refetch: () => {
+      // Refetching ignores `enabled`, so only the query that applies to this wallet is run
+      if (isPasskey) refetch();
+      else refetchSends();
+      refetchTransfers();
+    },
+  };
+};
@@ -1,9 +1,19 @@
-import { useState, useEffect } from "react";
-import { useAccount, useEstimateGas, useGasPrice, useEstimateFeesPerGas } from "wagmi";
-import { formatUnits, parseEther, encodeFunctionData, erc20Abi, parseUnits } from "viem";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, useChainId, useEstimateGas, useGasPrice, usePublicClient } from "wagmi";
+import { formatUnits, parseEther, encodeFunctionData, erc20Abi, parseUnits, hexToBigInt, numberToHex } from "viem";
 import type { Address } from "viem";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+import { useTokenPrice } from "@/hooks/use-token-price";
+import {
+  FEE_HISTORY_BLOCK_COUNT,
+  FEE_TIER_PERCENTILES,
+  computeFeeTiers,
+  formatInclusionTime,
+  type FeeTierName,
+} from "@/utils/fee-tiers";
 
-export type GasOption = "slow" | "standard" | "fast";
+export type GasOption = "slow" | "standard" | "fast" | "custom";
 
 interface GasSettings {
   readonly gasLimit: bigint;
@@ -16,6 +26,39 @@ interface GasSettings {
   readonly estimatedTime: string;
 }
 
+/**
+ * The gas components of a smart account's user operation, as quoted by the bundler
+ */
+export interface UserOperationGasBreakdown {
+  readonly callGasLimit: bigint;
+  readonly verificationGasLimit: bigint;
+  readonly preVerificationGas: bigint;
+  /** Paymaster verification plus post-op gas, zero without a paymaster */
+  readonly paymasterGasLimit: bigint;
+  /** Whether a paymaster pays for the gas instead of the account's native balance */
+  readonly hasPaymaster: boolean;
+}
+
+/**
+ * Gas values as typed in the advanced mode: fees in Gwei, the gas limit in gas units
+ */
+export interface CustomGasInput {
+  readonly maxFeePerGas: string;
+  readonly maxPriorityFeePerGas: string;
+  readonly gasLimit: string;
+}
+
+export interface CustomGas {
+  readonly input: CustomGasInput;
+  readonly setInput: (input: CustomGasInput) => void;
+  /** The typed values, or the standard option's while they are invalid */
+  readonly settings: GasSettings;
+  /** Why the typed values cannot be used, if they cannot */
+  readonly error?: string;
+  /** Base fee of the next block, which the max fee has to cover */
+  readonly baseFeePerGas?: bigint;
+}
+
 interface GasEstimation {
   readonly slow: GasSettings;
   readonly standard: GasSettings;
@@ -23,6 +66,10 @@ interface GasEstimation {
   readonly selectedOption: GasOption;
   readonly setSelectedOption: (option: GasOption) => void;
   readonly selected: GasSettings;
+  /** Advanced mode, used when `selectedOption` is `custom`. Not offered for user operations */
+  readonly custom: CustomGas;
+  /** Set for smart accounts, whose transactions are sent as user operations */
+  readonly userOperation?: UserOperationGasBreakdown;
   readonly isLoading: boolean;
   readonly error?: Error;
 }
@@ -35,12 +82,21 @@ interface UseGasEstimationParams {
 }
 
 /**
- * Hook to estimate gas for transactions with multiple speed options
+ * Hook to estimate gas for transactions with speed options priced from the chain's recent fee history,
+ * see `computeFeeTiers`. Passkey accounts send user operations,
+ * so for them the bundler's gas limits and gas price are used instead, and every speed option carries
+ * the bundler's quote.
  */
 export const useGasEstimation = (params: UseGasEstimationParams): GasEstimation => {
-  const { address } = useAccount();
+  const { address, connector } = useAccount();
+  const chainId = useChainId();
   const [selectedOption, setSelectedOption] = useState<GasOption>("standard");
-  const [ethPriceUsd, setEthPriceUsd] = useState<number | undefined>();
+  const [customInput, setCustomInput] = useState<CustomGasInput>({
+    maxFeePerGas: "",
+    maxPriorityFeePerGas: "",
+    gasLimit: "",
+  });
+  const { isPasskey: isSmartAccount, request } = usePasskeysRequest();
 
   // Estimate gas limit
   const {
@@ -53,116 +109,232 @@ export const useGasEstimation = (params: UseGasEstimationParams): GasEstimation
     data: params.data,
     account: address,
     query: {
-      enabled: params.enabled && !!params.to && !!address,
+      enabled: params.enabled && !isSmartAccount && !!params.to && !!address,
     },
   });
 
-  // Get EIP-1559 fee data (preferred for modern chains)
-  const { data: feeData, isLoading: isLoadingFeeData } = useEstimateFeesPerGas({
-    query: {
-      enabled: params.enabled,
+  // EIP-1559 fee tiers from the reward percentiles of recent blocks
+  const publicClient = usePublicClient({ chainId });
+  const {
+    data: feeTiers,
+    isLoading: isLoadingFeeTiers,
+    isError: isFeeHistoryUnavailable,
+  } = useQuery({
+    queryKey: ["feeTiers", chainId],
+    queryFn: async () => {
+      const history = await publicClient!.getFeeHistory({
+        blockCount: FEE_HISTORY_BLOCK_COUNT,
+        rewardPercentiles: Object.values(FEE_TIER_PERCENTILES),
+      });
+      const newestBlock = history.oldestBlock + BigInt(history.gasUsedRatio.length - 1);
+      const [oldest, newest] = await Promise.all([
+        publicClient!.getBlock({ blockNumber: history.oldestBlock }),
+        publicClient!.getBlock({ blockNumber: newestBlock }),
+      ]);
+      const blockTimeSeconds =
+        newest.number > oldest.number
+          ? Number(newest.timestamp - oldest.timestamp) / Number(newest.number - oldest.number)
+          : 0;
+      return computeFeeTiers(history, blockTimeSeconds);
     },
+    enabled: !!params.enabled && !isSmartAccount && !!publicClient,
+    refetchInterval: 15_000,
+    retry: false,
   });
 
-  // Fallback to legacy gas price
+  // Chains without EIP-1559 fall back to the legacy gas price
   const { data: legacyGasPrice, isLoading: isLoadingGasPrice } = useGasPrice({
     query: {
-      enabled: params.enabled && !feeData,
+      enabled: params.enabled && !isSmartAccount && isFeeHistoryUnavailable,
     },
   });
 
-  // Fetch ETH price
-  useEffect(() => {
-    if (!params.enabled) return;
-
-    const fetchEthPrice = async (): Promise<void> => {
-      try {
-        const response = await fetch("https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd");
-        const data = await response.json();
-        setEthPriceUsd(data.ethereum?.usd);
-      } catch (error) {
-        console.warn("Failed to fetch ETH price:", error);
-      }
-    };
+  // User operation gas from the bundler
+  const {
+    data: userOperationGas,
+    isLoading: isEstimatingUserOperation,
+    error: userOperationError,
+  } = useQuery({
+    queryKey: ["userOperationGas", connector?.uid, chainId, address, params.to, params.value?.toString(), params.data],
+    queryFn: () =>
+      request("passkeys_estimateUserOperationGas", {
+        chainId: numberToHex(chainId),
+        to: params.to!,
+        value: numberToHex(params.value ?? 0n),
+        data: params.data,
+      }),
+    enabled: !!params.enabled && isSmartAccount && !!params.to && !!address,
+  });
+
+  const userOperation: UserOperationGasBreakdown | undefined = userOperationGas && {
+    callGasLimit: hexToBigInt(userOperationGas.callGasLimit),
+    verificationGasLimit: hexToBigInt(userOperationGas.verificationGasLimit),
+    preVerificationGas: hexToBigInt(userOperationGas.preVerificationGas),
+    paymasterGasLimit:
+      hexToBigInt(userOperationGas.paymasterVerificationGasLimit ?? "0x0") +
+      hexToBigInt(userOperationGas.paymasterPostOpGasLimit ?? "0x0"),
+    hasPaymaster: userOperationGas.hasPaymaster,
+  };
+
+  // Gas is paid in the chain's native currency
+  const { price: nativePriceUsd } = useTokenPrice({ currency: "usd", enabled: params.enabled });
 
-    fetchEthPrice();
-  }, [params.enabled]);
+  const withCosts = (settings: Omit<GasSettings, "totalCostWei" | "totalCostEth" | "totalCostUsd">): GasSettings => {
+    const totalCostWei = settings.gasLimit * settings.gasPrice;
+    const totalCostEth = formatUnits(totalCostWei, 18);
+    const totalCostUsd = nativePriceUsd ? (parseFloat(totalCostEth) * nativePriceUsd).toFixed(2) : undefined;
+    return { ...settings, totalCostWei, totalCostEth, totalCostUsd };
+  };
 
-  // Calculate gas options
-  const createGasSettings = (multiplier: number, estimatedTime: string): GasSettings => {
-    const limit = gasLimit || 21000n;
+  // Calculate gas options; legacy prices are scaled by `legacyPercent`, as they have no tiers of their own
+  const createGasSettings = (tier: FeeTierName, legacyPercent: bigint): GasSettings => {
+    const limit = userOperation
+      ? userOperation.callGasLimit +
+        userOperation.verificationGasLimit +
+        userOperation.preVerificationGas +
+        userOperation.paymasterGasLimit
+      : gasLimit || 21000n;
 
     let gasPrice: bigint;
     let maxFeePerGas: bigint | undefined;
     let maxPriorityFeePerGas: bigint | undefined;
 
-    if (feeData?.maxFeePerGas && feeData?.maxPriorityFeePerGas) {
+    let estimatedTime = "Unknown";
+
+    if (userOperationGas) {
+      // The bundler rejects operations priced below its quote and the wallet submits at the quote,
+      // so there are no tiers to pick from
+      maxFeePerGas = hexToBigInt(userOperationGas.maxFeePerGas);
+      maxPriorityFeePerGas = hexToBigInt(userOperationGas.maxPriorityFeePerGas);
+      gasPrice = maxFeePerGas;
+      estimatedTime = "Next bundle";
+    } else if (feeTiers) {
       // EIP-1559 transaction
-      maxFeePerGas = BigInt(Math.floor(Number(feeData.maxFeePerGas) * multiplier));
-      maxPriorityFeePerGas = BigInt(Math.floor(Number(feeData.maxPriorityFeePerGas) * multiplier));
+      maxFeePerGas = feeTiers[tier].maxFeePerGas;
+      maxPriorityFeePerGas = feeTiers[tier].maxPriorityFeePerGas;
       gasPrice = maxFeePerGas; // For cost calculation
+      estimatedTime = formatInclusionTime(feeTiers[tier].estimatedSeconds);
     } else if (legacyGasPrice) {
       // Legacy transaction
-      gasPrice = BigInt(Math.floor(Number(legacyGasPrice) * multiplier));
+      gasPrice = (legacyGasPrice * legacyPercent) / 100n;
     } else {
       // Fallback
-      gasPrice = BigInt(Math.floor(20_000_000_000 * multiplier)); // 20 gwei
+      gasPrice = (20_000_000_000n * legacyPercent) / 100n; // 20 gwei
     }
 
-    const totalCostWei = limit * gasPrice;
-    const totalCostEth = formatUnits(totalCostWei, 18);
-    const totalCostUsd = ethPriceUsd ? (parseFloat(totalCostEth) * ethPriceUsd).toFixed(2) : undefined;
-
-    return {
+    return withCosts({
       gasLimit: limit,
       gasPrice,
       maxFeePerGas,
       maxPriorityFeePerGas,
-      totalCostWei,
-      totalCostEth,
-      totalCostUsd,
       estimatedTime,
-    };
+    });
   };
 
-  const slow = createGasSettings(0.9, "~5 min");
-  const standard = createGasSettings(1.0, "~1 min");
-  const fast = createGasSettings(1.2, "~15 sec");
+  const slow = createGasSettings("slow", 90n);
+  const standard = createGasSettings("standard", 100n);
+  const fast = createGasSettings("fast", 120n);
 
-  const selected = selectedOption === "slow" ? slow : selectedOption === "fast" ? fast : standard;
+  const baseFeePerGas = feeTiers?.baseFeePerGas;
+  const custom = ((): Pick<CustomGas, "settings" | "error"> => {
+    let maxFeePerGas: bigint;
+    let maxPriorityFeePerGas: bigint;
+    let limit: bigint;
+    try {
+      maxFeePerGas = parseUnits(customInput.maxFeePerGas.trim() || "0", 9);
+      maxPriorityFeePerGas = parseUnits(customInput.maxPriorityFeePerGas.trim() || "0", 9);
+      limit = BigInt(customInput.gasLimit.trim() || "0");
+    } catch {
+      return { settings: standard, error: "Enter fees in Gwei and the gas limit as a whole number" };
+    }
+
+    const error =
+      maxFeePerGas === 0n || limit === 0n
+        ? "Enter a max fee and a gas limit"
+        : baseFeePerGas !== undefined && maxFeePerGas < baseFeePerGas
+          ? `Max fee is below the current base fee of ${formatUnits(baseFeePerGas, 9)} Gwei`
+          : maxPriorityFeePerGas > maxFeePerGas
+            ? "Priority fee cannot be higher than the max fee"
+            : gasLimit !== undefined && limit < gasLimit
+              ? `Gas limit is below the estimated ${gasLimit.toLocaleString()}`
+              : undefined;
+    if (error) return { settings: standard, error };
+
+    return {
+      settings: withCosts({
+        gasLimit: limit,
+        gasPrice: maxFeePerGas,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        estimatedTime: "Custom",
+      }),
+    };
+  })();
+
+  // Switching to the advanced mode starts from the standard option's values
+  const selectOption = (option: GasOption): void => {
+    if (option === "custom" && !customInput.gasLimit) {
+      setCustomInput({
+        maxFeePerGas: formatUnits(standard.maxFeePerGas ?? standard.gasPrice, 9),
+        maxPriorityFeePerGas: formatUnits(standard.maxPriorityFeePerGas ?? 0n, 9),
+        gasLimit: standard.gasLimit.toString(),
+      });
+    }
+    setSelectedOption(option);
+  };
+
+  const selected =
+    selectedOption === "slow"
+      ? slow
+      : selectedOption === "fast"
+        ? fast
+        : selectedOption === "custom"
+          ? custom.settings
+          : standard;
 
   return {
     slow,
     standard,
     fast,
     selectedOption,
-    setSelectedOption,
+    setSelectedOption: selectOption,
     selected,
-    isLoading: isEstimatingGas || isLoadingFeeData || isLoadingGasPrice,
-    error: gasError || undefined,
+    custom: {
+      input: customInput,
+      setInput: setCustomInput,
+      settings: custom.settings,
+      error: selectedOption === "custom" ? custom.error : undefined,
+      baseFeePerGas,
+    },
+    userOperation,
+    isLoading: isSmartAccount ? isEstimatingUserOperation : isEstimatingGas || isLoadingFeeTiers || isLoadingGasPrice,
+    error: (isSmartAccount ? userOperationError : gasError) || undefined,
   };
 };
 
 /**
- * Hook specifically for FUSDT transfer gas estimation
+ * Hook specifically for ERC-20 transfer gas estimation
  */
-export const useFusdtTransferGasEstimation = (to?: Address, amount?: string, enabled = false): GasEstimation => {
-  const fusdtAddress = "0x118f6c0090ffd227cbefe1c6d8a803198c4422f0" as const;
-
+export const useTokenTransferGasEstimation = (
+  token?: { readonly address: Address; readonly decimals: number },
+  to?: Address,
+  amount?: string,
+  enabled = false,
+): GasEstimation => {
   const data =
-    to && amount
+    token && to && amount
       ? encodeFunctionData({
           abi: erc20Abi,
           functionName: "transfer",
-          args: [to, parseUnits(amount, 18)], // FUSDT has 18 decimals
+          args: [to, parseUnits(amount, token.decimals)],
         })
       : undefined;
 
   return useGasEstimation({
-    to: fusdtAddress,
+    to: token?.address,
     value: 0n, // No ETH value for ERC20 transfer
     data,
-    enabled: enabled && !!to && !!amount,
+    enabled: enabled && !!token && !!to && !!amount,
   });
 };
 
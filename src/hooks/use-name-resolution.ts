@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { getAddress, isAddress, type Address } from "viem";
+import { nameService } from "@/config";
+import { toResolvableName } from "@/utils/name-service";
+
+export interface UseResolveNameReturn {
+  /** Normalized name when the input looks like one */
+  readonly name?: string;
+  /** The input itself when it is an address, otherwise what the name resolves to */
+  readonly address?: Address;
+  readonly isLoading: boolean;
+  /** Whether the input is a name that resolved to nothing */
+  readonly isUnresolved: boolean;
+}
+
+export interface UseAddressNameReturn {
+  /** Primary name of the address, undefined when it has none */
+  readonly name?: string;
+  readonly avatar?: string;
+  readonly isLoading: boolean;
+}
+
+/**
+ * Hook to turn recipient input, an address or a name such as `vitalik.eth`, into an address
+ */
+export const useResolveName = (input: string): UseResolveNameReturn => {
+  const trimmed = input.trim();
+  const name = toResolvableName(trimmed);
+
+  const { data: resolved, isLoading } = useQuery({
+    queryKey: ["resolveName", name],
+    queryFn: async () => (await nameService.resolveName(name!)) ?? null,
+    enabled: !!name,
+    staleTime: nameService.ttlMs,
+  });
+
+  return {
+    name,
+    address: isAddress(trimmed) ? getAddress(trimmed) : (resolved ?? undefined),
+    isLoading,
+    isUnresolved: !!name && !isLoading && !resolved,
+  };
+};
+
+/**
+ * Hook to look up the name and avatar an address has set for itself
+ */
+export const useAddressName = (address?: Address): UseAddressNameReturn => {
+  const { data: name, isLoading } = useQuery({
+    queryKey: ["addressName", address?.toLowerCase()],
+    queryFn: async () => (await nameService.lookupAddress(address!)) ?? null,
+    enabled: !!address,
+    staleTime: nameService.ttlMs,
+  });
+
+  const { data: avatar } = useQuery({
+    queryKey: ["nameAvatar", name],
+    queryFn: async () => (await nameService.getAvatar(name!)) ?? null,
+    enabled: !!name,
+    staleTime: nameService.ttlMs,
+  });
+
+  return { name: name ?? undefined, avatar: avatar ?? undefined, isLoading };
+};
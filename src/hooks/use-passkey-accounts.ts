@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import type { Address } from "viem";
+import type { PasskeyAccountInfo } from "@/connectors/passkeys-accounts";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+
+export interface UsePasskeyAccountsReturn {
+  readonly accounts: readonly PasskeyAccountInfo[];
+  readonly isLoading: boolean;
+  readonly createAccount: (label?: string) => Promise<PasskeyAccountInfo>;
+  readonly switchAccount: (address: Address) => Promise<void>;
+  readonly renameAccount: (args: { address: Address; label: string }) => Promise<void>;
+  readonly isCreating: boolean;
+  readonly isSwitching: boolean;
+}
+
+/**
+ * Hook to list, create, rename and switch between the smart accounts owned by the connected passkey
+ */
+export const usePasskeyAccounts = (): UsePasskeyAccountsReturn => {
+  const { connector, address, addresses } = useAccount();
+  const queryClient = useQueryClient();
+  const { isPasskey, request } = usePasskeysRequest();
+  const queryKey = ["passkeyAccounts", connector?.uid, address, addresses?.length];
+
+  const { data: accounts, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => request("passkeys_getAccounts"),
+    enabled: isPasskey && !!address,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["passkeyAccounts", connector?.uid] });
+
+  const create = useMutation({
+    mutationFn: (label?: string) => request("passkeys_createAccount", label),
+    onSuccess: invalidate,
+  });
+
+  const switchTo = useMutation({
+    mutationFn: async (target: Address) => {
+      await request("passkeys_switchAccount", target);
+    },
+    onSuccess: invalidate,
+  });
+
+  const rename = useMutation({
+    mutationFn: async ({ address: target, label }: { address: Address; label: string }) => {
+      await request("passkeys_renameAccount", target, label);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    accounts: accounts ?? [],
+    isLoading,
+    createAccount: create.mutateAsync,
+    switchAccount: switchTo.mutateAsync,
+    renameAccount: rename.mutateAsync,
+    isCreating: create.isPending,
+    isSwitching: switchTo.isPending,
+  };
+};
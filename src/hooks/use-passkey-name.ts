@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAccount } from "wagmi";
+import { isPasskeyConnector } from "@/connectors/passkeys-connector";
 import { getStoredPasskeyName } from "@/utils/get-passkey-name";
 
 /**
@@ -11,7 +12,7 @@ export function usePasskeyName(): string | null {
 
   useEffect(() => {
     async function loadPasskeyName() {
-      if (!isConnected || !connector || connector.name !== "Passkey") {
+      if (!isConnected || !isPasskeyConnector(connector)) {
         setPasskeyName(null);
         return;
       }
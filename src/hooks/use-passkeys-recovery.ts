@@ -0,0 +1,14 @@
+import { useConnectors, type Connector } from "wagmi";
+import { isPasskeyConnector } from "@/connectors/passkeys-connector";
+import type { PasskeysRecoveryActions } from "@/connectors/passkeys-recovery";
+
+/**
+ * Hook to get the passkeys connector's recovery actions, which work without connecting
+ */
+export const usePasskeysRecovery = (): PasskeysRecoveryActions | undefined => {
+  const connectors = useConnectors();
+  const connector = connectors.find(isPasskeyConnector) as
+    | (Connector & { readonly recovery?: PasskeysRecoveryActions })
+    | undefined;
+  return connector?.recovery;
+};
@@ -0,0 +1,34 @@
+import { useAccount } from "wagmi";
+import { isPasskeyConnector } from "@/connectors/passkeys-connector";
+import type { PasskeysRpcMethod, PasskeysRpcSchema } from "@/connectors/passkeys-provider";
+
+type PasskeysRequestFn = <M extends PasskeysRpcMethod>(
+  method: M,
+  ...params: PasskeysRpcSchema[M]["params"]
+) => Promise<PasskeysRpcSchema[M]["result"]>;
+
+interface PasskeysRequestProvider {
+  readonly request: (args: { method: string; params: readonly unknown[] }) => Promise<unknown>;
+}
+
+export interface UsePasskeysRequestReturn {
+  /** Whether the connected wallet is the passkey wallet; `request` throws otherwise */
+  readonly isPasskey: boolean;
+  readonly request: PasskeysRequestFn;
+}
+
+/**
+ * Hook to call the connected passkey wallet's `passkeys_*` methods, typed by `PasskeysRpcSchema`
+ */
+export const usePasskeysRequest = (): UsePasskeysRequestReturn => {
+  const { connector } = useAccount();
+  const isPasskey = isPasskeyConnector(connector);
+
+  const request: PasskeysRequestFn = async (method, ...params) => {
+    if (!connector || !isPasskey) throw new Error("Connect with a passkey to use this feature");
+    const provider = (await connector.getProvider()) as PasskeysRequestProvider;
+    return (await provider.request({ method, params })) as PasskeysRpcSchema[typeof method]["result"];
+  };
+
+  return { isPasskey, request };
+};
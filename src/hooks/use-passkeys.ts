@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import type { PasskeyInfo } from "@/connectors/passkeys-signers";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+
+export interface UsePasskeysReturn {
+  readonly passkeys: readonly PasskeyInfo[];
+  readonly isLoading: boolean;
+  readonly addPasskey: (name: string) => Promise<PasskeyInfo>;
+  readonly removePasskey: (id: string) => Promise<void>;
+  readonly isAdding: boolean;
+  /** Id of the passkey being removed, if any */
+  readonly removingId?: string;
+}
+
+/**
+ * Hook to list, add and remove the passkeys that can sign for the connected passkey account
+ */
+export const usePasskeys = (): UsePasskeysReturn => {
+  const { connector, address, chainId } = useAccount();
+  const queryClient = useQueryClient();
+  const { isPasskey, request } = usePasskeysRequest();
+  const queryKey = ["passkeys", connector?.uid, address, chainId];
+
+  const { data: passkeys, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => request("passkeys_getPasskeys"),
+    enabled: isPasskey && !!address,
+  });
+
+  const add = useMutation({
+    mutationFn: (name: string) => request("passkeys_addPasskey", name),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      await request("passkeys_removePasskey", id);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    passkeys: passkeys ?? [],
+    isLoading,
+    addPasskey: add.mutateAsync,
+    removePasskey: remove.mutateAsync,
+    isAdding: add.isPending,
+    removingId: remove.isPending ? remove.variables : undefined,
+  };
+};
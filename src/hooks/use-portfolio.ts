@@ -0,0 +1,170 @@
+import { useEffect } from "react";
+import { type QueryClient, useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount, useChainId, useConfig } from "wagmi";
+import type { Address } from "viem";
+import { useFiatCurrency } from "@/components/fiat-currency-provider";
+import { useTokenBalances } from "@/hooks/use-token-balances";
+import { tokenPriceQueryOptions } from "@/hooks/use-token-price";
+import {
+  SNAPSHOT_INTERVAL_MS,
+  getBalanceSnapshots,
+  recordBalanceSnapshot,
+  toAssetKey,
+  type BalanceSnapshot,
+} from "@/utils/balance-snapshots";
+import { FIAT_CURRENCIES, type FiatCurrency, type PriceAsset } from "@/utils/price-service";
+
+/** Snapshots further apart than this were not taken in between, because the wallet was closed */
+const MAX_SNAPSHOT_GAP_MS = 2 * SNAPSHOT_INTERVAL_MS;
+
+export interface PortfolioHolding {
+  /** See `toAssetKey` */
+  readonly key: string;
+  /** Token contract, or undefined for the native currency */
+  readonly address?: Address;
+  readonly symbol: string;
+  /** Human-readable amount */
+  readonly amount: string;
+  /** Price in the selected currency, undefined when unknown */
+  readonly price?: number;
+  readonly value?: number;
+}
+
+export interface PortfolioHistoryPoint {
+  readonly timestamp: number;
+  /** Null where the value is unknown or no snapshot was taken, which charts show as a gap */
+  readonly value: number | null;
+}
+
+export interface UsePortfolioReturn {
+  readonly holdings: readonly PortfolioHolding[];
+  /** Sum of the holdings that have a price, undefined when none has */
+  readonly totalValue?: number;
+  readonly currency: FiatCurrency;
+  /** Stored balance snapshots valued at the prices recorded with them, oldest first */
+  readonly history: readonly PortfolioHistoryPoint[];
+  readonly isLoading: boolean;
+}
+
+/**
+ * Values a snapshot at its own prices, or null when it has none in `currency`
+ */
+const valueSnapshot = ({ amounts, pricesByCurrency }: BalanceSnapshot, currency: FiatCurrency) => {
+  const prices = pricesByCurrency?.[currency];
+  if (!prices) return null;
+  const priced = Object.entries(amounts).filter(([key]) => prices[key] !== undefined);
+  if (priced.length === 0) return null;
+  return priced.reduce((total, [key, amount]) => total + parseFloat(amount) * prices[key], 0);
+};
+
+/**
+ * Prices assets in every supported currency, so a snapshot can be valued whichever currency is selected later
+ */
+const fetchSnapshotPrices = async (
+  queryClient: QueryClient,
+  assets: readonly PriceAsset[],
+): Promise<NonNullable<BalanceSnapshot["pricesByCurrency"]>> => {
+  const entries = await Promise.all(
+    FIAT_CURRENCIES.map(async (fiat) => {
+      const prices = await Promise.all(
+        assets.map(async (asset) => {
+          const price = await queryClient.fetchQuery(tokenPriceQueryOptions(asset, fiat)).catch(() => null);
+          return [toAssetKey(asset.address), price] as const;
+        }),
+      );
+      return [fiat, Object.fromEntries(prices.filter(([, price]) => price !== null))] as const;
+    }),
+  );
+  return Object.fromEntries(entries);
+};
+
+/**
+ * Hook to value the connected account's balances in the selected fiat currency. While mounted it also
+ * snapshots the balances periodically, which is what the returned history is built from.
+ */
+export const usePortfolio = (): UsePortfolioReturn => {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const { currency } = useFiatCurrency();
+  const { ethBalance, tokenBalances, isLoading: isLoadingBalances } = useTokenBalances();
+  const nativeSymbol = config.chains.find((chain) => chain.id === chainId)?.nativeCurrency.symbol ?? "ETH";
+
+  const assets = [
+    { address: undefined, symbol: nativeSymbol, amount: ethBalance.formattedBalance },
+    ...tokenBalances.map((token) => ({ address: token.address, symbol: token.symbol, amount: token.formattedBalance })),
+  ];
+
+  const prices = useQueries({
+    queries: assets.map((asset) => tokenPriceQueryOptions({ chainId, ...asset }, currency)),
+  });
+
+  const holdings: PortfolioHolding[] = assets.map((asset, index) => {
+    const price = prices[index]?.data ?? undefined;
+    return {
+      key: toAssetKey(asset.address),
+      ...asset,
+      price,
+      value: price !== undefined ? parseFloat(asset.amount) * price : undefined,
+    };
+  });
+  const pricedHoldings = holdings.filter((holding) => holding.value !== undefined);
+  const totalValue =
+    pricedHoldings.length > 0 ? pricedHoldings.reduce((total, holding) => total + holding.value!, 0) : undefined;
+
+  const { data: snapshots, isLoading: isLoadingSnapshots } = useQuery({
+    queryKey: ["balanceSnapshots", chainId, address],
+    queryFn: () => getBalanceSnapshots(chainId, address!),
+    enabled: !!address,
+  });
+
+  const isLoadingPrices = prices.some((price) => price.isLoading);
+
+  // Serialized so the effect only reruns when an asset or amount actually changes
+  const snapshotAssets = JSON.stringify(assets);
+  useEffect(() => {
+    if (!address || isLoadingBalances) return;
+
+    const record = async () => {
+      // Checked before pricing, since that takes a request per asset and currency
+      const recorded = await getBalanceSnapshots(chainId, address);
+      const latest = recorded[recorded.length - 1];
+      if (latest && Date.now() - latest.timestamp < SNAPSHOT_INTERVAL_MS) return;
+
+      const current: typeof assets = JSON.parse(snapshotAssets);
+      const isRecorded = await recordBalanceSnapshot(chainId, address, {
+        timestamp: Date.now(),
+        amounts: Object.fromEntries(current.map((asset) => [toAssetKey(asset.address), asset.amount])),
+        pricesByCurrency: await fetchSnapshotPrices(
+          queryClient,
+          current.map((asset) => ({ chainId, ...asset })),
+        ),
+      });
+      if (isRecorded) queryClient.invalidateQueries({ queryKey: ["balanceSnapshots", chainId, address] });
+    };
+
+    record();
+    // Snapshots that are not due yet are skipped, so checking every minute is cheap
+    const interval = setInterval(record, 60_000);
+    return () => clearInterval(interval);
+  }, [address, chainId, snapshotAssets, isLoadingBalances, queryClient]);
+
+  const history: PortfolioHistoryPoint[] = [];
+  let previous: BalanceSnapshot | undefined;
+  for (const snapshot of snapshots ?? []) {
+    if (previous && snapshot.timestamp - previous.timestamp > MAX_SNAPSHOT_GAP_MS) {
+      history.push({ timestamp: previous.timestamp + SNAPSHOT_INTERVAL_MS, value: null });
+    }
+    history.push({ timestamp: snapshot.timestamp, value: valueSnapshot(snapshot, currency) });
+    previous = snapshot;
+  }
+
+  return {
+    holdings,
+    totalValue,
+    currency,
+    history,
+    isLoading: isLoadingBalances || isLoadingSnapshots || isLoadingPrices,
+  };
+};
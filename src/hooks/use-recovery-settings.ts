@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import type { RecoveryGuardianConfig, RecoverySettings } from "@/connectors/passkeys-recovery";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+
+export interface UseRecoverySettingsReturn {
+  readonly settings: RecoverySettings | null;
+  readonly isLoading: boolean;
+  readonly setGuardians: (config: RecoveryGuardianConfig) => Promise<RecoverySettings>;
+  readonly removeGuardians: () => Promise<void>;
+  readonly isSaving: boolean;
+  readonly isRemoving: boolean;
+}
+
+/**
+ * Hook to configure the guardians that can recover the connected passkey account
+ */
+export const useRecoverySettings = (): UseRecoverySettingsReturn => {
+  const { connector, address, chainId } = useAccount();
+  const queryClient = useQueryClient();
+  const { isPasskey, request } = usePasskeysRequest();
+  const queryKey = ["recoverySettings", connector?.uid, address, chainId];
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => (await request("passkeys_getRecoverySettings")) ?? null,
+    enabled: isPasskey && !!address,
+  });
+
+  const save = useMutation({
+    mutationFn: (config: RecoveryGuardianConfig) => request("passkeys_setRecoveryGuardians", config),
+    onSuccess: (saved) => queryClient.setQueryData(queryKey, saved),
+  });
+
+  const remove = useMutation({
+    mutationFn: async () => {
+      await request("passkeys_removeRecoveryGuardians");
+    },
+    onSuccess: () => queryClient.setQueryData(queryKey, null),
+  });
+
+  return {
+    settings: settings ?? null,
+    isLoading,
+    setGuardians: save.mutateAsync,
+    removeGuardians: remove.mutateAsync,
+    isSaving: save.isPending,
+    isRemoving: remove.isPending,
+  };
+};
@@ -0,0 +1,78 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAccount, useConfig, useSendTransaction } from "wagmi";
+import { estimateFeesPerGas, getTransaction } from "wagmi/actions";
+import type { Hash } from "viem";
+import type { ActivityRecord } from "@/connectors/passkeys-activity-store";
+import { addSendRecord, getSendHistory, updateSendRecord } from "@/utils/send-history";
+import { getReplacementFees } from "@/utils/replacement-fees";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+
+/**
+ * - `speedUp`: resends the same transaction with higher fees
+ * - `cancel`: takes its nonce with a no-op that pays higher fees
+ */
+export type ReplacementAction = "speedUp" | "cancel";
+
+export interface UseReplaceTransactionReturn {
+  /** Returns the hash of the replacement */
+  readonly replace: (args: { record: ActivityRecord; action: ReplacementAction }) => Promise<Hash>;
+  readonly isReplacing: boolean;
+}
+
+/**
+ * Hook to speed up or cancel a pending activity entry. Passkey wallets resubmit the user operation
+ * through the bundler; other wallets send a transaction with the same nonce and higher fees.
+ */
+export const useReplaceTransaction = (): UseReplaceTransactionReturn => {
+  const { address } = useAccount();
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const { sendTransactionAsync } = useSendTransaction();
+  const { isPasskey, request } = usePasskeysRequest();
+
+  const replaceUserOperation = (record: ActivityRecord, action: ReplacementAction): Promise<Hash> =>
+    request(action === "cancel" ? "passkeys_cancelUserOperation" : "passkeys_speedUpUserOperation", record.id as Hash);
+
+  const replaceTransaction = async (record: ActivityRecord, action: ReplacementAction): Promise<Hash> => {
+    const chainId = record.chainId as (typeof config)["chains"][number]["id"];
+    const pending = await getTransaction(config, { hash: record.id as Hash, chainId }).catch(() => undefined);
+    if (!pending) throw new Error("The transaction is no longer known to the network");
+    if (pending.blockNumber !== null) throw new Error("The transaction has already been mined");
+
+    // Legacy transactions pay their gas price as both fees
+    const fees = getReplacementFees(
+      {
+        maxFeePerGas: pending.maxFeePerGas ?? pending.gasPrice ?? 0n,
+        maxPriorityFeePerGas: pending.maxPriorityFeePerGas ?? pending.gasPrice ?? 0n,
+      },
+      await estimateFeesPerGas(config, { chainId }),
+    );
+    const hash = await sendTransactionAsync(
+      action === "cancel"
+        ? { chainId, to: address!, value: 0n, nonce: pending.nonce, ...fees }
+        : { chainId, to: pending.to!, value: pending.value, data: pending.input, nonce: pending.nonce, ...fees },
+    );
+
+    const original = (await getSendHistory(address!)).find((sent) => sent.hash === record.id);
+    if (original && action === "speedUp") {
+      await addSendRecord({ ...original, hash, status: "submitted", transactionHash: undefined, sentAt: Date.now() });
+    }
+    await updateSendRecord(record.id as Hash, { status: "failed", replacedBy: hash });
+    return hash;
+  };
+
+  const replace = useMutation({
+    mutationFn: ({ record, action }: { record: ActivityRecord; action: ReplacementAction }) =>
+      isPasskey ? replaceUserOperation(record, action) : replaceTransaction(record, action),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["activity"] });
+      queryClient.invalidateQueries({ queryKey: ["sendActivity"] });
+      queryClient.invalidateQueries({ queryKey: ["sendHistory"] });
+    },
+  });
+
+  return {
+    replace: replace.mutateAsync,
+    isReplacing: replace.isPending,
+  };
+};
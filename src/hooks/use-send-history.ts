@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import type { Hash } from "viem";
+import { addSendRecord, getSendHistory, updateSendRecord, type SendRecord } from "@/utils/send-history";
+
+export interface UseSendHistoryReturn {
+  readonly history: readonly SendRecord[];
+  readonly isLoading: boolean;
+  readonly addRecord: (record: SendRecord) => Promise<void>;
+  readonly updateRecord: (
+    args: { hash: Hash } & Pick<SendRecord, "status" | "transactionHash" | "replacedBy">,
+  ) => Promise<void>;
+}
+
+/**
+ * Hook to read and record the transfers sent from the connected account
+ */
+export const useSendHistory = (): UseSendHistoryReturn => {
+  const { address } = useAccount();
+  const queryClient = useQueryClient();
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ["sendHistory", address],
+    queryFn: () => getSendHistory(address!),
+    enabled: !!address,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["sendHistory"] });
+
+  const add = useMutation({
+    mutationFn: addSendRecord,
+    onSuccess: invalidate,
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: ({
+      hash,
+      ...changes
+    }: { hash: Hash } & Pick<SendRecord, "status" | "transactionHash" | "replacedBy">) =>
+      updateSendRecord(hash, changes),
+    onSuccess: invalidate,
+  });
+
+  return {
+    history: history ?? [],
+    isLoading,
+    addRecord: add.mutateAsync,
+    updateRecord: updateStatus.mutateAsync,
+  };
+};
@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
+import { isAddressEqual } from "viem";
+import type { SessionKeyInfo, SessionKeyPolicy } from "@/connectors/passkeys-session-keys";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+
+export interface UseSessionKeyReturn {
+  readonly sessionKey: SessionKeyInfo | null;
+  /** Keys stored for the passkey's other accounts or on other chains; each is revoked from its own account and chain */
+  readonly otherSessionKeys: readonly SessionKeyInfo[];
+  readonly isLoading: boolean;
+  readonly createSessionKey: (policy: SessionKeyPolicy) => Promise<SessionKeyInfo>;
+  readonly revokeSessionKey: () => Promise<void>;
+  readonly isCreating: boolean;
+  readonly isRevoking: boolean;
+  readonly error: Error | null;
+}
+
+/**
+ * Hook to manage the passkey account's session key, which signs calls within its policy
+ * without a biometric prompt until it expires or is revoked
+ */
+export const useSessionKey = (): UseSessionKeyReturn => {
+  const { connector, address, chainId } = useAccount();
+  const queryClient = useQueryClient();
+  const { isPasskey, request } = usePasskeysRequest();
+  const queryKey = ["sessionKey", connector?.uid, address, chainId];
+  const listQueryKey = ["sessionKeys", connector?.uid];
+
+  const { data: sessionKey, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => (await request("passkeys_getSessionKey")) ?? null,
+    enabled: isPasskey && !!address,
+  });
+
+  const { data: sessionKeys } = useQuery({
+    queryKey: listQueryKey,
+    queryFn: () => request("passkeys_getSessionKeys"),
+    enabled: isPasskey && !!address,
+  });
+
+  const create = useMutation({
+    mutationFn: (policy: SessionKeyPolicy) => request("passkeys_createSessionKey", policy),
+    onSuccess: (created) => {
+      queryClient.setQueryData(queryKey, created);
+      queryClient.invalidateQueries({ queryKey: listQueryKey });
+    },
+  });
+
+  const revoke = useMutation({
+    mutationFn: async () => {
+      await request("passkeys_revokeSessionKey");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(queryKey, null);
+      queryClient.invalidateQueries({ queryKey: listQueryKey });
+    },
+  });
+
+  const otherSessionKeys = (sessionKeys ?? []).filter(
+    (key) => key.chainId !== chainId || !address || !isAddressEqual(key.accountAddress, address),
+  );
+
+  return {
+    sessionKey: sessionKey ?? null,
+    otherSessionKeys,
+    isLoading,
+    createSessionKey: create.mutateAsync,
+    revokeSessionKey: revoke.mutateAsync,
+    isCreating: create.isPending,
+    isRevoking: revoke.isPending,
+    error: create.error ?? revoke.error,
+  };
+};
@@ -1,47 +1,14 @@
 import { useAccount, useBalance, useReadContracts, useChainId } from "wagmi";
 import { erc20Abi, formatUnits } from "viem";
-import { sepolia, polygonAmoy } from "wagmi/chains";
-
-/**
- * Network-specific tokens to load balances for
- *
- * To add a new token:
- * 1. Add the token contract address to the appropriate network object
- * 2. The hook will automatically fetch name, symbol, decimals, and balance from the contract
- *
- * Example:
- * const NETWORK_TOKENS = {
- *   [sepolia.id]: [
- *     "0x118f6C0090ffd227CbeFE1C6d8A803198c4422F0", // FUSDT on Sepolia
- *     "0xYourNewTokenAddressOnSepolia",
- *   ],
- *   [polygonAmoy.id]: [
- *     "0xPolygonAmoyFUSDTAddress", // FUSDT on Polygon Amoy
- *     "0xYourNewTokenAddressOnPolygonAmoy",
- *   ],
- * } as const;
- */
-const NETWORK_TOKENS = {
-  [sepolia.id]: [
-    "0x118f6C0090ffd227CbeFE1C6d8A803198c4422F0", // FUSDT on Sepolia
-    // Add more Sepolia tokens here
-  ],
-  [polygonAmoy.id]: [
-    "0x783904e158200811A97A73FD58DcE024c44e125B", // Token on Polygon Amoy
-    // TODO: Add more token contract addresses for Polygon Amoy testnet
-    // You can either:
-    // 1. Deploy your own FUSDT contract on Polygon Amoy
-    // 2. Find existing test tokens on Polygon Amoy testnet
-    // 3. Use different test tokens available on Polygon Amoy
-    // Example: "0xYourFUSDTContractOnPolygonAmoy",
-  ],
-} as const;
+import { useTokenRegistry } from "@/hooks/use-token-registry";
+import type { TokenSource } from "@/utils/token-registry";
 
 export interface TokenBalance {
   readonly address: `0x${string}`;
   readonly symbol: string;
   readonly name: string;
   readonly decimals: number;
+  readonly source: TokenSource;
   readonly balance: bigint;
   readonly formattedBalance: string;
   readonly isLoading: boolean;
@@ -62,14 +29,14 @@ export interface UseTokenBalancesReturn {
 }
 
 /**
- * Hook to fetch ETH and ERC20 token balances for the connected account
+ * Hook to fetch ETH and ERC20 token balances for the connected account, for every token in the registry
  */
 export const useTokenBalances = (): UseTokenBalancesReturn => {
   const { address } = useAccount();
   const chainId = useChainId();
 
   // Get tokens for the current network
-  const tokensToLoad = NETWORK_TOKENS[chainId as keyof typeof NETWORK_TOKENS] || [];
+  const { tokens: tokensToLoad } = useTokenRegistry(chainId);
 
   // Fetch ETH balance
   const {
@@ -83,7 +50,7 @@ export const useTokenBalances = (): UseTokenBalancesReturn => {
   });
 
   // Create contracts for all tokens (balance + metadata for each)
-  const tokenContracts = tokensToLoad.flatMap((tokenAddress) => [
+  const tokenContracts = tokensToLoad.flatMap(({ address: tokenAddress }) => [
     {
       address: tokenAddress,
       abi: erc20Abi,
@@ -133,13 +100,15 @@ export const useTokenBalances = (): UseTokenBalancesReturn => {
   };
 
   // Process token balances and metadata
-  const tokenBalances: TokenBalance[] = tokensToLoad.map((tokenAddress, index) => {
+  // The registry supplies the metadata until the contract reads come back
+  const tokenBalances: TokenBalance[] = tokensToLoad.map((token, index) => {
     if (!tokenData) {
       return {
-        address: tokenAddress,
-        symbol: "Unknown",
-        name: "Unknown Token",
-        decimals: 18,
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        source: token.source,
         balance: 0n,
         formattedBalance: "0",
         isLoading: tokensLoading,
@@ -155,19 +124,20 @@ export const useTokenBalances = (): UseTokenBalancesReturn => {
     const decimalsResult = tokenData[dataStartIndex + 3];
 
     const balance = balanceResult?.status === "success" ? (balanceResult.result as bigint) : 0n;
-    const name = nameResult?.status === "success" ? (nameResult.result as string) : "Unknown Token";
-    const symbol = symbolResult?.status === "success" ? (symbolResult.result as string) : "Unknown";
-    const decimals = decimalsResult?.status === "success" ? (decimalsResult.result as number) : 18;
+    const name = nameResult?.status === "success" ? (nameResult.result as string) : token.name;
+    const symbol = symbolResult?.status === "success" ? (symbolResult.result as string) : token.symbol;
+    const decimals = decimalsResult?.status === "success" ? (decimalsResult.result as number) : token.decimals;
 
     const balanceError = balanceResult?.status === "failure" ? (balanceResult.error as Error) : null;
     const metadataError = [nameResult, symbolResult, decimalsResult].find((result) => result?.status === "failure")
       ?.error as Error | undefined;
 
     return {
-      address: tokenAddress,
+      address: token.address,
       symbol,
       name,
       decimals,
+      source: token.source,
       balance,
       formattedBalance: formatUnits(balance, decimals),
       isLoading: tokensLoading,
@@ -0,0 +1,61 @@
+import { queryOptions, useQuery } from "@tanstack/react-query";
+import { useChainId, useConfig } from "wagmi";
+import type { Address } from "viem";
+import { priceService } from "@/config";
+import { useFiatCurrency } from "@/components/fiat-currency-provider";
+import type { FiatCurrency, PriceAsset } from "@/utils/price-service";
+
+interface UseTokenPriceParams {
+  /** Token to price; the chain's native currency when omitted */
+  readonly token?: { readonly address: Address; readonly symbol: string };
+  /** Defaults to the current chain */
+  readonly chainId?: number;
+  /** Defaults to the user's selected fiat currency */
+  readonly currency?: FiatCurrency;
+  readonly enabled?: boolean;
+}
+
+export interface UseTokenPriceReturn {
+  /** Price in `currency`, or undefined while loading or when no provider knows the asset */
+  readonly price?: number;
+  readonly currency: FiatCurrency;
+  readonly isLoading: boolean;
+}
+
+/**
+ * Query options for an asset's fiat price, shared by every hook that prices assets so they hit the same cache entry
+ */
+export const tokenPriceQueryOptions = (asset: PriceAsset, currency: FiatCurrency) =>
+  queryOptions({
+    queryKey: ["tokenPrice", asset.chainId, asset.address ?? "native", asset.symbol, currency],
+    queryFn: async () => (await priceService.getPrice(asset, currency)) ?? null,
+    staleTime: priceService.ttlMs,
+    refetchInterval: priceService.ttlMs,
+  });
+
+/**
+ * Hook to get the fiat price of a token or native currency from the configured price service
+ */
+export const useTokenPrice = ({
+  token,
+  chainId,
+  currency,
+  enabled = true,
+}: UseTokenPriceParams = {}): UseTokenPriceReturn => {
+  const currentChainId = useChainId();
+  const config = useConfig();
+  const { currency: selectedCurrency } = useFiatCurrency();
+  const targetChainId = chainId ?? currentChainId;
+  const targetCurrency = currency ?? selectedCurrency;
+  const nativeSymbol = config.chains.find((chain) => chain.id === targetChainId)?.nativeCurrency.symbol ?? "ETH";
+
+  const { data: price, isLoading } = useQuery({
+    ...tokenPriceQueryOptions(
+      { chainId: targetChainId, address: token?.address, symbol: token?.symbol ?? nativeSymbol },
+      targetCurrency,
+    ),
+    enabled,
+  });
+
+  return { price: price ?? undefined, currency: targetCurrency, isLoading };
+};
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useChainId } from "wagmi";
+import type { Address } from "viem";
+import {
+  addUserToken,
+  getBuiltInTokens,
+  getRegisteredTokens,
+  removeUserToken,
+  type RegisteredToken,
+  type TokenInfo,
+} from "@/utils/token-registry";
+
+export interface UseTokenRegistryReturn {
+  readonly tokens: readonly RegisteredToken[];
+  readonly isLoading: boolean;
+  readonly addToken: (token: TokenInfo) => Promise<void>;
+  readonly removeToken: (address: Address) => Promise<void>;
+  readonly isAdding: boolean;
+}
+
+/**
+ * Hook to list the tokens known for a chain (the current one by default) and manage user-added tokens
+ */
+export const useTokenRegistry = (chainId?: number): UseTokenRegistryReturn => {
+  const currentChainId = useChainId();
+  const targetChainId = chainId ?? currentChainId;
+  const queryClient = useQueryClient();
+
+  const { data: tokens, isLoading } = useQuery({
+    queryKey: ["tokenRegistry", targetChainId],
+    queryFn: () => getRegisteredTokens(targetChainId),
+    // Built-in tokens are available synchronously, so balances don't wait on IndexedDB
+    placeholderData: () => getBuiltInTokens(targetChainId),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["tokenRegistry"] });
+
+  const add = useMutation({
+    mutationFn: addUserToken,
+    onSuccess: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: (address: Address) => removeUserToken(targetChainId, address),
+    onSuccess: invalidate,
+  });
+
+  return {
+    tokens: tokens ?? [],
+    isLoading,
+    addToken: add.mutateAsync,
+    removeToken: remove.mutateAsync,
+    isAdding: add.isPending,
+  };
+};
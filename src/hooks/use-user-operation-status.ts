@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, useWaitForTransactionReceipt } from "wagmi";
+import type { Hash } from "viem";
+import {
+  isFinalUserOperationStatus,
+  type TrackedUserOperation,
+  type UserOperationStatus,
+} from "@/connectors/passkeys-user-operation-store";
+import { usePasskeysRequest } from "@/hooks/use-passkeys-request";
+
+const POLLING_INTERVAL_MS = 2_000;
+
+export interface UseUserOperationStatusReturn {
+  readonly status?: UserOperationStatus;
+  /** Hash of the on-chain transaction that carried the operation, once known */
+  readonly transactionHash?: Hash;
+  readonly error?: string;
+  readonly isPending: boolean;
+  readonly isSuccess: boolean;
+  readonly isFailed: boolean;
+}
+
+/**
+ * Hook to follow a hash returned by `sendTransaction` until it lands on chain.
+ * Passkey wallets return user operation hashes, which are tracked through the bundler;
+ * other wallets return transaction hashes, which are tracked through their receipt.
+ */
+export const useUserOperationStatus = (hash?: Hash): UseUserOperationStatusReturn => {
+  const { connector } = useAccount();
+  const { isPasskey, request } = usePasskeysRequest();
+
+  const { data: operation, error: operationError } = useQuery({
+    queryKey: ["userOperationStatus", connector?.uid, hash],
+    queryFn: (): Promise<TrackedUserOperation> => request("passkeys_getUserOperationStatus", hash!),
+    enabled: isPasskey && !!hash,
+    refetchInterval: (query) =>
+      query.state.data && isFinalUserOperationStatus(query.state.data.status) ? false : POLLING_INTERVAL_MS,
+  });
+
+  const {
+    data: receipt,
+    isError: isReceiptError,
+    error: receiptError,
+  } = useWaitForTransactionReceipt({
+    hash,
+    query: { enabled: !isPasskey && !!hash },
+  });
+
+  const status = ((): UserOperationStatus | undefined => {
+    if (!hash) return undefined;
+    if (isPasskey) return operation?.status ?? "submitted";
+    if (isReceiptError) return "failed";
+    if (receipt) return receipt.status === "success" ? "included" : "failed";
+    return "submitted";
+  })();
+
+  const error = isPasskey
+    ? (operation?.error ?? operationError?.message)
+    : receipt?.status === "reverted"
+      ? "Transaction reverted"
+      : receiptError?.message;
+
+  return {
+    status,
+    transactionHash: isPasskey ? operation?.transactionHash : hash,
+    error,
+    isPending: !!status && !isFinalUserOperationStatus(status),
+    isSuccess: status === "included",
+    isFailed: status === "failed",
+  };
+};
@@ -1,10 +1,30 @@
 import type { createKernelAccountClient, CreateKernelAccountReturnType, ZeroDevPaymasterClient } from "@zerodev/sdk";
 import { WebAuthnMode, type WebAuthnKey } from "@zerodev/webauthn-key";
+import type { Address, Chain, Hex, PublicClient, Transport } from "viem";
 
 export type PaymasterClient = ZeroDevPaymasterClient;
 
 export type KernelClient = ReturnType<typeof createKernelAccountClient>;
 
+/**
+ * How user operations are paid for:
+ * - `sponsor`: gas is covered by the ZeroDev project's sponsorship policies
+ * - `erc20`: gas is paid in `gasToken` through the ZeroDev ERC-20 paymaster
+ * - `custom`: any ERC-7677 paymaster service reachable at `url`
+ */
+export type PasskeysPaymasterOptions =
+  | { readonly type: "sponsor" }
+  | { readonly type: "erc20"; readonly gasToken: Address; readonly approveAmount: bigint }
+  | { readonly type: "custom"; readonly url: string; readonly context?: unknown };
+
+export interface PaymasterCall {
+  readonly to: Address;
+  readonly value: bigint;
+  readonly data: Hex;
+}
+
+export type PasskeysPublicClient = PublicClient<Transport, Chain>;
+
 export type SessionKeyAccount = CreateKernelAccountReturnType<"0.7">;
 
 export type WebAuthenticationKey = WebAuthnKey;
@@ -15,3 +35,10 @@ export const WEB_AUTHENTICATION_MODE_KEY = {
   REGISTER: WebAuthnMode.Register,
   LOGIN: WebAuthnMode.Login,
 } as const;
+
+/**
+ * How `connect` obtains a passkey when none is stored:
+ * - `register`: creates a new passkey called `name`, and with it a new wallet
+ * - `login`: signs in with a passkey registered earlier
+ */
+export type PasskeysConnectFlow = { readonly mode: "register"; readonly name: string } | { readonly mode: "login" };
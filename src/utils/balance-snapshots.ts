@@ -0,0 +1,60 @@
+import { get, update } from "idb-keyval";
+import type { Address } from "viem";
+import type { FiatCurrency } from "@/utils/price-service";
+
+/**
+ * An account's balances at a point in time, with the prices they were worth then in every supported currency.
+ * Snapshots taken before prices were recorded have none and cannot be valued.
+ */
+export interface BalanceSnapshot {
+  readonly timestamp: number;
+  /** Human-readable amounts by asset key, see {@link toAssetKey} */
+  readonly amounts: Readonly<Record<string, string>>;
+  /** Prices by currency, then by asset key; assets that had no price are left out */
+  readonly pricesByCurrency?: Readonly<Partial<Record<FiatCurrency, Readonly<Record<string, number>>>>>;
+}
+
+type BalanceSnapshotRecord = Record<string, BalanceSnapshot[]>;
+
+const BALANCE_SNAPSHOTS_STORAGE_KEY = "hw-balance-snapshots";
+/** Minimum time between two snapshots of the same account */
+export const SNAPSHOT_INTERVAL_MS = 15 * 60_000;
+/** A month of snapshots at the interval above */
+const MAX_SNAPSHOTS = 30 * 24 * 4;
+
+const snapshotKey = (chainId: number, account: Address): string => `${chainId}:${account.toLowerCase()}`;
+
+/**
+ * Key an asset's amount is stored under: the lowercased token address, or `native`
+ */
+export const toAssetKey = (address?: Address): string => address?.toLowerCase() ?? "native";
+
+/**
+ * Gets an account's snapshots on a chain, oldest first
+ */
+export async function getBalanceSnapshots(chainId: number, account: Address): Promise<BalanceSnapshot[]> {
+  const record = await get<BalanceSnapshotRecord>(BALANCE_SNAPSHOTS_STORAGE_KEY);
+  return record?.[snapshotKey(chainId, account)] ?? [];
+}
+
+/**
+ * Appends a snapshot unless the latest one is more recent than {@link SNAPSHOT_INTERVAL_MS}.
+ * Returns whether the snapshot was stored.
+ */
+export async function recordBalanceSnapshot(
+  chainId: number,
+  account: Address,
+  snapshot: BalanceSnapshot,
+): Promise<boolean> {
+  let isRecorded = false;
+  await update<BalanceSnapshotRecord>(BALANCE_SNAPSHOTS_STORAGE_KEY, (record) => {
+    const key = snapshotKey(chainId, account);
+    const snapshots = record?.[key] ?? [];
+    const latest = snapshots[snapshots.length - 1];
+    if (latest && snapshot.timestamp - latest.timestamp < SNAPSHOT_INTERVAL_MS) return record ?? {};
+
+    isRecorded = true;
+    return { ...record, [key]: [...snapshots, snapshot].slice(-MAX_SNAPSHOTS) };
+  });
+  return isRecorded;
+}
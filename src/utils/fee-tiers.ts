@@ -0,0 +1,68 @@
+import type { FeeHistory } from "viem";
+
+export type FeeTierName = "slow" | "standard" | "fast";
+
+/** Reward percentiles requested from `eth_feeHistory`, one per tier */
+export const FEE_TIER_PERCENTILES: Readonly<Record<FeeTierName, number>> = { slow: 10, standard: 50, fast: 90 };
+
+/** How many recent blocks the tiers are computed from */
+export const FEE_HISTORY_BLOCK_COUNT = 20;
+
+export interface FeeTier {
+  readonly maxFeePerGas: bigint;
+  readonly maxPriorityFeePerGas: bigint;
+  /** Expected wait for inclusion, undefined when no recent block would have included the tier */
+  readonly estimatedSeconds?: number;
+}
+
+export type FeeTiers = Readonly<Record<FeeTierName, FeeTier>> & {
+  /** Base fee of the next block */
+  readonly baseFeePerGas: bigint;
+};
+
+const TIER_NAMES = Object.keys(FEE_TIER_PERCENTILES) as FeeTierName[];
+
+const median = (values: readonly bigint[]): bigint => {
+  if (values.length === 0) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Computes fee tiers from a fee history requested with {@link FEE_TIER_PERCENTILES}, in that order.
+ * Each tier tips the median of its percentile over the recent non-empty blocks, and its max fee leaves room
+ * for the base fee to double. The wait is the expected number of blocks until one whose lowest-paying
+ * included transactions tipped no more than the tier, times the observed block time.
+ */
+export function computeFeeTiers(history: FeeHistory, blockTimeSeconds: number): FeeTiers {
+  const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n;
+  // Empty blocks report zero rewards, which would drag every tier down
+  const rewards = (history.reward ?? []).filter((_, index) => history.gasUsedRatio[index] > 0);
+
+  const tiers = TIER_NAMES.map((name, tierIndex): [FeeTierName, FeeTier] => {
+    const maxPriorityFeePerGas = median(rewards.map((blockRewards) => blockRewards[tierIndex] ?? 0n));
+    const includingBlocks = rewards.filter((blockRewards) => (blockRewards[0] ?? 0n) <= maxPriorityFeePerGas).length;
+    const expectedBlocks =
+      rewards.length === 0 ? 1 : includingBlocks === 0 ? undefined : Math.ceil(rewards.length / includingBlocks);
+
+    return [
+      name,
+      {
+        maxFeePerGas: nextBaseFee * 2n + maxPriorityFeePerGas,
+        maxPriorityFeePerGas,
+        estimatedSeconds: expectedBlocks !== undefined ? expectedBlocks * blockTimeSeconds : undefined,
+      },
+    ];
+  });
+
+  return { ...(Object.fromEntries(tiers) as Record<FeeTierName, FeeTier>), baseFeePerGas: nextBaseFee };
+}
+
+/**
+ * Formats an inclusion estimate, e.g. "~12 sec" or "~2 min"
+ */
+export function formatInclusionTime(seconds?: number): string {
+  if (seconds === undefined) return `> ${FEE_HISTORY_BLOCK_COUNT} blocks`;
+  if (seconds < 60) return `~${Math.max(1, Math.round(seconds))} sec`;
+  return `~${Math.round(seconds / 60)} min`;
+}
@@ -1,3 +1,6 @@
-export const formatAddress = (addr: string) => {
-  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+/**
+ * Shortens an address for display, or shows its name instead when it has one
+ */
+export const formatAddress = (addr: string, name?: string) => {
+  return name ?? `${addr.slice(0, 6)}...${addr.slice(-4)}`;
 };
@@ -0,0 +1,7 @@
+import type { FiatCurrency } from "@/utils/price-service";
+
+/**
+ * Formats a fiat amount with its currency symbol, e.g. "$1,234.56" or "¥1,235"
+ */
+export const formatFiat = (value: number, currency: FiatCurrency): string =>
+  value.toLocaleString("en-US", { style: "currency", currency: currency.toUpperCase() });
@@ -0,0 +1,38 @@
+import { isAddressEqual, type Address, type PublicClient } from "viem";
+import type { NameResolver } from "@/utils/name-service";
+
+/**
+ * Resolves ENS names through a client on the chain ENS is deployed on (mainnet, or Sepolia for testing),
+ * independent of the chains the wallet transacts on
+ */
+export function createEnsNameResolver({ client }: { client: PublicClient }): NameResolver {
+  return {
+    name: "ens",
+    resolveName: async (name) => (await client.getEnsAddress({ name })) ?? undefined,
+    lookupAddress: async (address) => (await client.getEnsName({ address })) ?? undefined,
+    getAvatar: async (name) => (await client.getEnsAvatar({ name })) ?? undefined,
+  };
+}
+
+/**
+ * Names for anvil's first default accounts, for the mock resolver
+ */
+export const MOCK_NAMES: Readonly<Record<string, Address>> = {
+  "alice.eth": "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+  "bob.eth": "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+  "carol.eth": "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+};
+
+/**
+ * Resolves names from a fixed table, for offline development and tests. An address's reverse name is the first
+ * name in the table that points to it.
+ */
+export function createMockNameResolver(names: Readonly<Record<string, Address>> = MOCK_NAMES): NameResolver {
+  return {
+    name: "mock",
+    resolveName: async (name) => names[name],
+    lookupAddress: async (address) =>
+      Object.entries(names).find(([, resolved]) => isAddressEqual(resolved, address))?.[0],
+    getAvatar: async () => undefined,
+  };
+}
@@ -0,0 +1,84 @@
+import { isAddress, type Address } from "viem";
+import { normalize } from "viem/ens";
+
+/**
+ * A source of human-readable names for addresses. Returns undefined for names or addresses it does not know
+ */
+export interface NameResolver {
+  readonly name: string;
+  /** Forward lookup, `name` is already normalized */
+  readonly resolveName: (name: string) => Promise<Address | undefined>;
+  /** Reverse lookup: the primary name of an address */
+  readonly lookupAddress: (address: Address) => Promise<string | undefined>;
+  readonly getAvatar: (name: string) => Promise<string | undefined>;
+}
+
+export interface NameService {
+  readonly resolveName: (name: string) => Promise<Address | undefined>;
+  readonly lookupAddress: (address: Address) => Promise<string | undefined>;
+  readonly getAvatar: (name: string) => Promise<string | undefined>;
+  readonly ttlMs: number;
+}
+
+export interface NameServiceOptions {
+  readonly resolver: NameResolver;
+  /** How long a lookup is reused before it is made again */
+  readonly ttlMs?: number;
+}
+
+interface CachedLookup {
+  readonly value: string | undefined;
+  readonly expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 5 * 60_000;
+
+/**
+ * Normalizes input that looks like a name (e.g. `vitalik.eth`) rather than an address, or returns undefined
+ */
+export const toResolvableName = (input: string): string | undefined => {
+  const trimmed = input.trim();
+  if (isAddress(trimmed) || !trimmed.includes(".")) return undefined;
+  try {
+    return normalize(trimmed);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Creates a name service that caches its resolver's results, including misses and failures, for `ttlMs`.
+ * Concurrent lookups of the same key share one request.
+ */
+export function createNameService({ resolver, ttlMs = DEFAULT_TTL_MS }: NameServiceOptions): NameService {
+  const cache = new Map<string, CachedLookup>();
+  const inFlight = new Map<string, Promise<string | undefined>>();
+
+  async function cached(key: string, lookup: () => Promise<string | undefined>): Promise<string | undefined> {
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) return hit.value;
+
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const request = lookup()
+      .catch((error) => {
+        console.warn(`Name resolver ${resolver.name} failed for ${key}:`, error);
+        return undefined;
+      })
+      .then((value) => {
+        cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+    return request;
+  }
+
+  return {
+    ttlMs,
+    resolveName: (name) => cached(`name:${name}`, () => resolver.resolveName(name)) as Promise<Address | undefined>,
+    lookupAddress: (address) => cached(`address:${address.toLowerCase()}`, () => resolver.lookupAddress(address)),
+    getAvatar: (name) => cached(`avatar:${name}`, () => resolver.getAvatar(name)),
+  };
+}
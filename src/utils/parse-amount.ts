@@ -0,0 +1,12 @@
+import { parseUnits } from "viem";
+
+/**
+ * Parses a human-readable amount, returning undefined while the input is not a valid number
+ */
+export const parseAmount = (amount: string, decimals: number): bigint | undefined => {
+  try {
+    return amount ? parseUnits(amount, decimals) : undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -1,6 +1,7 @@
 import { createRoot } from "react-dom/client";
 import { PasskeyNameModal } from "@/components/passkey-name-modal";
 import { createElement } from "react";
+import { PasskeyCancelledError } from "@/connectors/passkeys-errors";
 
 /**
  * Shows a modal dialog to prompt user for passkey name
@@ -27,7 +28,7 @@ export function promptPasskeyName(defaultName: string): Promise<string> {
     // Handle cancel
     const handleCancel = () => {
       cleanup();
-      reject(new Error("User cancelled passkey name input"));
+      reject(new PasskeyCancelledError());
     };
 
     // Render modal
@@ -0,0 +1,91 @@
+import { getAddress, isAddress, type Address } from "viem";
+
+const SCHEME = "ethereum:";
+
+/**
+ * A request for funds, as carried by an EIP-681 URI
+ */
+export interface PaymentRequest {
+  /** Address or ENS name to pay */
+  readonly recipient: string;
+  /** Chain the payment is expected on, undefined when the URI leaves it to the wallet */
+  readonly chainId?: number;
+  /** ERC-20 contract, or undefined for the native currency */
+  readonly token?: Address;
+  /** Amount in the asset's smallest unit, undefined when the payer chooses */
+  readonly amount?: bigint;
+}
+
+/**
+ * Builds an EIP-681 URI: `ethereum:<recipient>@<chainId>?value=<wei>` for the native currency, or
+ * `ethereum:<token>@<chainId>/transfer?address=<recipient>&uint256=<amount>` for a token
+ */
+export const buildPaymentRequest = ({ recipient, chainId, token, amount }: PaymentRequest): string => {
+  const chain = chainId !== undefined ? `@${chainId}` : "";
+  if (!token) {
+    const query = amount !== undefined ? `?value=${amount}` : "";
+    return `${SCHEME}${recipient}${chain}${query}`;
+  }
+
+  const params = new URLSearchParams({ address: recipient });
+  if (amount !== undefined) params.set("uint256", amount.toString());
+  return `${SCHEME}${token}${chain}/transfer?${params.toString()}`;
+};
+
+/**
+ * Parses an EIP-681 number, which may use scientific notation (e.g. `2.5e18`).
+ * Returns undefined unless it is a non-negative integer.
+ */
+const parseNumber = (value: string): bigint | undefined => {
+  const match = /^(\d+)(?:\.(\d+))?(?:e(\d+))?$/i.exec(value);
+  if (!match) return undefined;
+
+  const [, integer, fraction = "", exponent = "0"] = match;
+  const shift = Number(exponent) - fraction.length;
+  if (shift < 0) {
+    // Only trailing zeros may be shifted out of the fraction
+    if (!/^0*$/.test(fraction.slice(fraction.length + shift))) return undefined;
+    return BigInt(integer + fraction.slice(0, fraction.length + shift));
+  }
+  return BigInt(integer + fraction) * 10n ** BigInt(shift);
+};
+
+const isRecipient = (target: string): boolean => isAddress(target) || /^[^\s/?@]+\.[^\s/?@]+$/.test(target);
+
+/**
+ * Reads a payment request from an EIP-681 URI. Plain transfers and ERC-20 `transfer` calls are supported;
+ * anything else, or a malformed URI, returns undefined.
+ */
+export const parsePaymentRequest = (uri: string): PaymentRequest | undefined => {
+  const trimmed = uri.trim();
+  if (!trimmed.toLowerCase().startsWith(SCHEME)) return undefined;
+
+  const match = /^(?:pay-)?([^@/?]+)(?:@(\d+))?(?:\/([^?]+))?(?:\?(.*))?$/.exec(trimmed.slice(SCHEME.length));
+  if (!match) return undefined;
+
+  const [, target, chain, functionName, query = ""] = match;
+  const params = new URLSearchParams(query);
+  const chainId = chain !== undefined ? Number(chain) : undefined;
+
+  if (!functionName) {
+    if (!isRecipient(target)) return undefined;
+    const value = params.get("value");
+    const amount = value !== null ? parseNumber(value) : undefined;
+    if (value !== null && amount === undefined) return undefined;
+    return { recipient: isAddress(target) ? getAddress(target) : target, chainId, amount };
+  }
+
+  if (functionName !== "transfer" || !isAddress(target)) return undefined;
+  const recipient = params.get("address");
+  if (!recipient || !isRecipient(recipient)) return undefined;
+  const units = params.get("uint256");
+  const amount = units !== null ? parseNumber(units) : undefined;
+  if (units !== null && amount === undefined) return undefined;
+
+  return {
+    recipient: isAddress(recipient) ? getAddress(recipient) : recipient,
+    chainId,
+    token: getAddress(target),
+    amount,
+  };
+};
@@ -0,0 +1,184 @@
+import type { Address, PublicClient } from "viem";
+import { formatUnits } from "viem";
+import { arbitrum, base, foundry, mainnet, optimism, polygon, polygonAmoy, sepolia } from "wagmi/chains";
+import type { FiatCurrency, PriceAsset, PriceProvider } from "@/utils/price-service";
+
+/**
+ * Key of a chain's native currency in the price tables below, which key tokens by lowercase contract address.
+ * Tokens are never matched by symbol, which any contract can claim.
+ */
+export const NATIVE_ASSET_KEY = "native";
+
+const toAssetKey = ({ address }: PriceAsset): string => address?.toLowerCase() ?? NATIVE_ASSET_KEY;
+
+/** Testnet tokens with a known mainnet counterpart */
+const SEPOLIA_USDC = "0x1c7d4b196cb0c7b01d743fbc6116a902379c7238";
+const SEPOLIA_WETH = "0xfff9976782d46cc05630d1f6ebab18b2324d6b14";
+/** The rewards faucet's Fake USDT, priced as the USDT it stands in for */
+const SEPOLIA_FUSDT = "0x118f6c0090ffd227cbefe1c6d8a803198c4422f0";
+const AMOY_FUSDT = "0x783904e158200811a97a73fd58dce024c44e125b";
+
+/**
+ * CoinGecko ids per chain. Testnet assets have no market of their own, so the ones listed are priced as the
+ * mainnet asset they stand in for; other testnet tokens stay unpriced.
+ */
+const COINGECKO_IDS: Readonly<Record<number, Readonly<Record<string, string>>>> = {
+  [mainnet.id]: { [NATIVE_ASSET_KEY]: "ethereum" },
+  [polygon.id]: { [NATIVE_ASSET_KEY]: "polygon-ecosystem-token" },
+  [optimism.id]: { [NATIVE_ASSET_KEY]: "ethereum" },
+  [arbitrum.id]: { [NATIVE_ASSET_KEY]: "ethereum" },
+  [base.id]: { [NATIVE_ASSET_KEY]: "ethereum" },
+  [sepolia.id]: {
+    [NATIVE_ASSET_KEY]: "ethereum",
+    [SEPOLIA_USDC]: "usd-coin",
+    [SEPOLIA_WETH]: "weth",
+    [SEPOLIA_FUSDT]: "tether",
+  },
+  [polygonAmoy.id]: { [NATIVE_ASSET_KEY]: "polygon-ecosystem-token", [AMOY_FUSDT]: "tether" },
+  [foundry.id]: { [NATIVE_ASSET_KEY]: "ethereum" },
+};
+
+/**
+ * CoinGecko asset platforms, whose tokens are priced by contract address
+ */
+const COINGECKO_PLATFORMS: Readonly<Record<number, string>> = {
+  [mainnet.id]: "ethereum",
+  [polygon.id]: "polygon-pos",
+  [optimism.id]: "optimistic-ethereum",
+  [arbitrum.id]: "arbitrum-one",
+  [base.id]: "base",
+};
+
+type CoinGeckoPrices = Record<string, Partial<Record<FiatCurrency, number>> | undefined>;
+
+/**
+ * Prices assets with CoinGecko's simple price API: listed assets by id, other tokens on mainnet platforms
+ * by contract address
+ */
+export function createCoinGeckoPriceProvider({
+  apiUrl = "https://api.coingecko.com/api/v3",
+}: { apiUrl?: string } = {}): PriceProvider {
+  const fetchPrices = async (path: string): Promise<CoinGeckoPrices> => {
+    const response = await fetch(`${apiUrl}${path}`);
+    if (!response.ok) throw new Error(`CoinGecko responded with ${response.status}`);
+    return (await response.json()) as CoinGeckoPrices;
+  };
+
+  return {
+    name: "coingecko",
+    async getPrice(asset, currency) {
+      const key = toAssetKey(asset);
+      const id = COINGECKO_IDS[asset.chainId]?.[key];
+      if (id) return (await fetchPrices(`/simple/price?ids=${id}&vs_currencies=${currency}`))[id]?.[currency];
+
+      const platform = COINGECKO_PLATFORMS[asset.chainId];
+      if (!asset.address || !platform) return undefined;
+      const prices = await fetchPrices(
+        `/simple/token_price/${platform}?contract_addresses=${key}&vs_currencies=${currency}`,
+      );
+      return prices[key]?.[currency];
+    },
+  };
+}
+
+/**
+ * Sample exchange rates from USD for the static provider
+ */
+export const STATIC_FIAT_RATES: Readonly<Record<FiatCurrency, number>> = {
+  usd: 1,
+  eur: 0.92,
+  gbp: 0.79,
+  jpy: 150,
+  chf: 0.88,
+};
+
+/**
+ * Sample USD prices for the static provider, per chain and asset key
+ */
+export const STATIC_USD_PRICES: Readonly<Record<number, Readonly<Record<string, number>>>> = {
+  [sepolia.id]: { [NATIVE_ASSET_KEY]: 3_000, [SEPOLIA_WETH]: 3_000, [SEPOLIA_USDC]: 1, [SEPOLIA_FUSDT]: 1 },
+  [polygonAmoy.id]: { [NATIVE_ASSET_KEY]: 0.5, [AMOY_FUSDT]: 1 },
+  [foundry.id]: { [NATIVE_ASSET_KEY]: 3_000 },
+};
+
+/**
+ * Prices assets from a fixed table of USD prices keyed by chain and asset, converted with fixed exchange rates,
+ * for offline development
+ */
+export function createStaticPriceProvider(
+  prices: Readonly<Record<number, Readonly<Record<string, number>>>>,
+  fiatRates: Readonly<Record<FiatCurrency, number>> = STATIC_FIAT_RATES,
+): PriceProvider {
+  return {
+    name: "static",
+    getPrice: async (asset, currency) => {
+      const usdPrice = prices[asset.chainId]?.[toAssetKey(asset)];
+      return usdPrice === undefined ? undefined : usdPrice * fiatRates[currency];
+    },
+  };
+}
+
+const aggregatorV3Abi = [
+  {
+    type: "function",
+    name: "decimals",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "latestRoundData",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+] as const;
+
+/**
+ * Chainlink USD feeds per chain and asset key
+ * @see https://docs.chain.link/data-feeds/price-feeds/addresses
+ */
+export const CHAINLINK_USD_FEEDS: Readonly<Record<number, Readonly<Record<string, Address>>>> = {
+  [sepolia.id]: {
+    [NATIVE_ASSET_KEY]: "0x694AA1769357215DE4FAC081bf1f309aDC325306",
+    [SEPOLIA_WETH]: "0x694AA1769357215DE4FAC081bf1f309aDC325306",
+    [SEPOLIA_USDC]: "0xA2F78ab2355fe2f984D808B5CeE7FD0A93D5270E",
+  },
+};
+
+/** Answers older than this are ignored rather than shown as current */
+const MAX_FEED_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Prices assets from Chainlink aggregator feeds on the asset's own chain. Feeds quote USD only
+ */
+export function createChainlinkPriceProvider({
+  getClient,
+  feeds = CHAINLINK_USD_FEEDS,
+}: {
+  getClient: (chainId: number) => PublicClient | undefined;
+  feeds?: Readonly<Record<number, Readonly<Record<string, Address>>>>;
+}): PriceProvider {
+  return {
+    name: "chainlink",
+    async getPrice(asset, currency) {
+      const feed = currency === "usd" ? feeds[asset.chainId]?.[toAssetKey(asset)] : undefined;
+      const client = getClient(asset.chainId);
+      if (!feed || !client) return undefined;
+
+      const [decimals, [, answer, , updatedAt]] = await Promise.all([
+        client.readContract({ address: feed, abi: aggregatorV3Abi, functionName: "decimals" }),
+        client.readContract({ address: feed, abi: aggregatorV3Abi, functionName: "latestRoundData" }),
+      ]);
+      if (answer <= 0n || Date.now() / 1000 - Number(updatedAt) > MAX_FEED_AGE_SECONDS) return undefined;
+      return Number(formatUnits(answer, decimals));
+    },
+  };
+}
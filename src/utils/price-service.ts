@@ -0,0 +1,88 @@
+import type { Address } from "viem";
+
+/**
+ * An asset to price: a token contract, or the chain's native currency when `address` is omitted
+ */
+export interface PriceAsset {
+  readonly chainId: number;
+  readonly address?: Address;
+  readonly symbol: string;
+}
+
+/** Fiat currencies prices can be quoted in, as lowercase ISO 4217 codes */
+export const FIAT_CURRENCIES = ["usd", "eur", "gbp", "jpy", "chf"] as const;
+
+export type FiatCurrency = (typeof FIAT_CURRENCIES)[number];
+
+/**
+ * A source of fiat prices. Returns undefined for assets or currencies it does not know, so the next provider is asked
+ */
+export interface PriceProvider {
+  readonly name: string;
+  readonly getPrice: (asset: PriceAsset, currency: FiatCurrency) => Promise<number | undefined>;
+}
+
+export interface PriceService {
+  /** Price from the first provider that knows the asset, or undefined when none does */
+  readonly getPrice: (asset: PriceAsset, currency: FiatCurrency) => Promise<number | undefined>;
+  readonly ttlMs: number;
+}
+
+export interface PriceServiceOptions {
+  /** Asked in order until one returns a price */
+  readonly providers: readonly PriceProvider[];
+  /** How long a price is reused before it is fetched again */
+  readonly ttlMs?: number;
+}
+
+interface CachedPrice {
+  readonly price: number | undefined;
+  readonly expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 60_000;
+
+const toCacheKey = ({ chainId, address }: PriceAsset, currency: FiatCurrency): string =>
+  `${chainId}:${address?.toLowerCase() ?? "native"}:${currency}`;
+
+/**
+ * Creates a price service that falls back through its providers and caches results, including misses,
+ * for `ttlMs`. Concurrent requests for the same asset share one lookup.
+ */
+export function createPriceService({ providers, ttlMs = DEFAULT_TTL_MS }: PriceServiceOptions): PriceService {
+  const cache = new Map<string, CachedPrice>();
+  const inFlight = new Map<string, Promise<number | undefined>>();
+
+  async function lookup(asset: PriceAsset, currency: FiatCurrency): Promise<number | undefined> {
+    for (const provider of providers) {
+      try {
+        const price = await provider.getPrice(asset, currency);
+        if (price !== undefined) return price;
+      } catch (error) {
+        console.warn(`Price provider ${provider.name} failed for ${asset.symbol}:`, error);
+      }
+    }
+    return undefined;
+  }
+
+  return {
+    ttlMs,
+    async getPrice(asset, currency) {
+      const key = toCacheKey(asset, currency);
+      const cached = cache.get(key);
+      if (cached && cached.expiresAt > Date.now()) return cached.price;
+
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+
+      const request = lookup(asset, currency)
+        .then((price) => {
+          cache.set(key, { price, expiresAt: Date.now() + ttlMs });
+          return price;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, request);
+      return request;
+    },
+  };
+}
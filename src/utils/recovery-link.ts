@@ -0,0 +1,30 @@
+import { isAddress, type Address } from "viem";
+
+export const RECOVERY_PATH = "/recover";
+
+export interface RecoveryLinkParams {
+  readonly accountAddress: Address;
+  readonly chainId: number;
+}
+
+/**
+ * Builds the link a user keeps with their guardian to recover the account on this app. The recovery delay is not
+ * part of it: the guardian validator holds it on chain.
+ */
+export const buildRecoveryLink = ({ accountAddress, chainId }: RecoveryLinkParams): string => {
+  const params = new URLSearchParams({ account: accountAddress, chainId: chainId.toString() });
+  return `${window.location.origin}${RECOVERY_PATH}?${params.toString()}`;
+};
+
+/**
+ * Reads recovery parameters from a recovery link's query string, ignoring invalid values
+ */
+export const parseRecoveryLink = (searchParams: URLSearchParams): Partial<RecoveryLinkParams> => {
+  const account = searchParams.get("account");
+  const chainId = Number(searchParams.get("chainId"));
+
+  return {
+    accountAddress: account && isAddress(account) ? account : undefined,
+    chainId: Number.isInteger(chainId) && chainId > 0 ? chainId : undefined,
+  };
+};
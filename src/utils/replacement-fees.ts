@@ -0,0 +1,26 @@
+export interface FeesPerGas {
+  readonly maxFeePerGas: bigint;
+  readonly maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Nodes and bundlers only accept a replacement that raises both fees by at least 10%. Bumping by 12% leaves a
+ * margin, so rounding or a node with a slightly stricter threshold doesn't reject the replacement.
+ */
+const MIN_FEE_BUMP_PERCENT = 12n;
+
+const max = (...values: bigint[]): bigint => values.reduce((a, b) => (a > b ? a : b));
+
+const bump = (fee: bigint): bigint => (fee * (100n + MIN_FEE_BUMP_PERCENT) + 99n) / 100n;
+
+/**
+ * Fees for a transaction or user operation that replaces a pending one with the same nonce:
+ * enough above the pending fees to be accepted, and at least the current market fees
+ */
+export function getReplacementFees(pending: FeesPerGas, current: FeesPerGas): FeesPerGas {
+  const maxPriorityFeePerGas = max(bump(pending.maxPriorityFeePerGas), current.maxPriorityFeePerGas);
+  return {
+    maxFeePerGas: max(bump(pending.maxFeePerGas), current.maxFeePerGas, maxPriorityFeePerGas),
+    maxPriorityFeePerGas,
+  };
+}
@@ -0,0 +1,18 @@
+/** Paths of the wallet's pages */
+export const ROUTES = {
+  home: "/",
+  connect: "/connect",
+  send: "/send",
+  receive: "/receive",
+  activity: "/activity",
+  tokens: "/tokens",
+  settings: "/settings",
+  rpcTester: "/dev/rpc-tester",
+} as const;
+
+/**
+ * Router state the connect page reads to send the user back where they were headed
+ */
+export interface ConnectRedirectState {
+  readonly from?: { readonly pathname: string; readonly search: string };
+}
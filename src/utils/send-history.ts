@@ -0,0 +1,74 @@
+import { get, update } from "idb-keyval";
+import type { Address, Hash, Hex } from "viem";
+import type { ActivityRecord } from "@/connectors/passkeys-activity-store";
+import type { UserOperationStatus } from "@/connectors/passkeys-user-operation-store";
+
+/**
+ * A transfer made from the Send view. `hash` is whatever `sendTransaction` returned: a user operation
+ * hash for passkey wallets, a transaction hash otherwise
+ */
+export interface SendRecord {
+  readonly hash: Hash;
+  readonly chainId: number;
+  readonly from: Address;
+  readonly to: Address;
+  /** ENS name the recipient was entered as */
+  readonly recipientName?: string;
+  /** Token contract, or undefined for the native currency */
+  readonly tokenAddress?: Address;
+  readonly symbol: string;
+  /** Human-readable amount as entered */
+  readonly amount: string;
+  /** Amount in the token's base units */
+  readonly value: Hex;
+  readonly status: UserOperationStatus;
+  readonly transactionHash?: Hash;
+  /** Transaction that took this one's nonce, when it was sped up or cancelled */
+  readonly replacedBy?: Hash;
+  readonly sentAt: number;
+}
+
+const SEND_HISTORY_STORAGE_KEY = "hw-send-history";
+const MAX_SEND_HISTORY = 50;
+
+/**
+ * Gets the transfers sent from an account, most recent first
+ */
+export async function getSendHistory(from: Address): Promise<SendRecord[]> {
+  const records = await get<SendRecord[]>(SEND_HISTORY_STORAGE_KEY);
+  return (records ?? []).filter((record) => record.from.toLowerCase() === from.toLowerCase());
+}
+
+export async function addSendRecord(record: SendRecord): Promise<void> {
+  await update<SendRecord[]>(SEND_HISTORY_STORAGE_KEY, (records) =>
+    [record, ...(records ?? [])].slice(0, MAX_SEND_HISTORY),
+  );
+}
+
+export async function updateSendRecord(
+  hash: Hash,
+  changes: Pick<SendRecord, "status" | "transactionHash" | "replacedBy">,
+): Promise<void> {
+  await update<SendRecord[]>(SEND_HISTORY_STORAGE_KEY, (records) =>
+    (records ?? []).map((record) => (record.hash === hash ? { ...record, ...changes } : record)),
+  );
+}
+
+/**
+ * Shows a transfer sent by a wallet that keeps its own history, which this app cannot read, as activity
+ */
+export function toActivityRecord(record: SendRecord): ActivityRecord {
+  return {
+    id: record.hash,
+    chainId: record.chainId,
+    account: record.from,
+    method: "eth_sendTransaction",
+    kind: "send",
+    deltas: [{ token: record.tokenAddress, direction: "out", amount: record.value, counterparty: record.to }],
+    status: record.replacedBy ? "failed" : record.status,
+    transactionHash: record.transactionHash ?? record.hash,
+    error: record.replacedBy ? `Replaced by ${record.replacedBy}` : undefined,
+    submittedAt: record.sentAt,
+    updatedAt: record.sentAt,
+  };
+}
@@ -0,0 +1,163 @@
+import { get, update } from "idb-keyval";
+import { getAddress, isAddress, type Address } from "viem";
+import { sepolia, polygonAmoy } from "wagmi/chains";
+
+/**
+ * A token entry in the Uniswap token list format
+ * @see https://github.com/Uniswap/token-lists
+ */
+export interface TokenInfo {
+  readonly chainId: number;
+  readonly address: Address;
+  readonly name: string;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly logoURI?: string;
+  readonly tags?: readonly string[];
+}
+
+export interface TokenList {
+  readonly name: string;
+  readonly tokens: readonly TokenInfo[];
+}
+
+/** Where a registry entry came from; earlier sources win when the same address appears twice */
+export type TokenSource = "default" | "list" | "user";
+
+export interface RegisteredToken extends TokenInfo {
+  readonly source: TokenSource;
+}
+
+/** Tag marking the token minted by the rewards faucet */
+export const REWARDS_TOKEN_TAG = "rewards";
+
+const USER_TOKENS_STORAGE_KEY = "hw-user-tokens";
+
+type UserTokensRecord = Record<number, TokenInfo[]>;
+
+/**
+ * Tokens the app ships with. Metadata read from the contract takes precedence over these values
+ */
+const DEFAULT_TOKENS: readonly TokenInfo[] = [
+  {
+    chainId: sepolia.id,
+    address: "0x118f6C0090ffd227CbeFE1C6d8A803198c4422F0",
+    name: "Fake USDT",
+    symbol: "FUSDT",
+    decimals: 18,
+    tags: [REWARDS_TOKEN_TAG],
+  },
+  {
+    chainId: polygonAmoy.id,
+    address: "0x783904e158200811A97A73FD58DcE024c44e125B",
+    name: "Fake USDT",
+    symbol: "FUSDT",
+    decimals: 18,
+    tags: [REWARDS_TOKEN_TAG],
+  },
+];
+
+const isTokenInfo = (value: unknown): value is TokenInfo => {
+  const token = value as Partial<TokenInfo> | null;
+  return (
+    typeof token?.chainId === "number" &&
+    typeof token.address === "string" &&
+    isAddress(token.address) &&
+    typeof token.name === "string" &&
+    typeof token.symbol === "string" &&
+    typeof token.decimals === "number" &&
+    Number.isInteger(token.decimals) &&
+    token.decimals >= 0 &&
+    token.decimals <= 255
+  );
+};
+
+/**
+ * Reads a Uniswap-format token list, dropping entries that are malformed
+ */
+export function parseTokenList(json: unknown): TokenList {
+  const list = json as Partial<TokenList> | null;
+  if (typeof list?.name !== "string" || !Array.isArray(list.tokens)) {
+    throw new Error("Not a token list: expected a name and a tokens array");
+  }
+
+  const tokens = list.tokens.filter(isTokenInfo).map((token) => ({ ...token, address: getAddress(token.address) }));
+  return { name: list.name, tokens };
+}
+
+// Drop a `*.tokenlist.json` file into src/token-lists to ship it with the app
+const BUNDLED_TOKEN_LISTS = Object.entries(
+  import.meta.glob<unknown>("../token-lists/*.tokenlist.json", { eager: true, import: "default" }),
+).flatMap(([path, json]) => {
+  try {
+    return [parseTokenList(json)];
+  } catch (error) {
+    console.warn(`Ignoring token list ${path}:`, error);
+    return [];
+  }
+});
+
+const mergeTokens = (sources: readonly (readonly RegisteredToken[])[]): RegisteredToken[] => {
+  const seen = new Set<string>();
+  return sources.flat().filter((token) => {
+    const key = token.address.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const withSource = (tokens: readonly TokenInfo[], chainId: number, source: TokenSource): RegisteredToken[] =>
+  tokens.filter((token) => token.chainId === chainId).map((token) => ({ ...token, source }));
+
+/**
+ * Gets the tokens shipped with the app for a chain: the defaults followed by the bundled token lists
+ */
+export function getBuiltInTokens(chainId: number): RegisteredToken[] {
+  return mergeTokens([
+    withSource(DEFAULT_TOKENS, chainId, "default"),
+    ...BUNDLED_TOKEN_LISTS.map((list) => withSource(list.tokens, chainId, "list")),
+  ]);
+}
+
+/**
+ * Gets the token the rewards faucet mints on a chain, if there is one
+ */
+export function getRewardsToken(chainId: number): RegisteredToken | undefined {
+  return getBuiltInTokens(chainId).find((token) => token.tags?.includes(REWARDS_TOKEN_TAG));
+}
+
+export async function getUserTokens(chainId: number): Promise<TokenInfo[]> {
+  const record = await get<UserTokensRecord>(USER_TOKENS_STORAGE_KEY);
+  return record?.[chainId] ?? [];
+}
+
+/**
+ * Gets every token known for a chain: built-in defaults, bundled token lists and tokens the user added
+ */
+export async function getRegisteredTokens(chainId: number): Promise<RegisteredToken[]> {
+  const userTokens = await getUserTokens(chainId);
+  return mergeTokens([getBuiltInTokens(chainId), withSource(userTokens, chainId, "user")]);
+}
+
+export async function addUserToken(token: TokenInfo): Promise<void> {
+  if (!isTokenInfo(token)) throw new Error("Invalid token");
+
+  const registered = await getRegisteredTokens(token.chainId);
+  if (registered.some((existing) => existing.address.toLowerCase() === token.address.toLowerCase())) {
+    throw new Error(`${token.symbol} is already in the token list`);
+  }
+
+  const entry = { ...token, address: getAddress(token.address) };
+  await update<UserTokensRecord>(USER_TOKENS_STORAGE_KEY, (record) => ({
+    ...record,
+    [token.chainId]: [...(record?.[token.chainId] ?? []), entry],
+  }));
+}
+
+export async function removeUserToken(chainId: number, address: Address): Promise<void> {
+  await update<UserTokensRecord>(USER_TOKENS_STORAGE_KEY, (record) => ({
+    ...record,
+    [chainId]: (record?.[chainId] ?? []).filter((token) => token.address.toLowerCase() !== address.toLowerCase()),
+  }));
+}
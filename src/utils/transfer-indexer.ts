@@ -0,0 +1,196 @@
+import { get, update } from "idb-keyval";
+import { getAbiItem, numberToHex } from "viem";
+import type { Address, Hash, Hex, PublicClient } from "viem";
+import { USDT_ABI } from "@/constants";
+import type { ActivityRecord } from "@/connectors/passkeys-activity-store";
+
+/**
+ * An ERC-20 transfer into or out of an account, found in the chain's `Transfer` logs
+ */
+export interface IndexedTransfer {
+  /** `${transactionHash}:${logIndex}` */
+  readonly id: string;
+  readonly chainId: number;
+  readonly account: Address;
+  readonly token: Address;
+  readonly direction: "in" | "out";
+  readonly amount: Hex;
+  readonly counterparty: Address;
+  readonly transactionHash: Hash;
+  readonly blockNumber: number;
+  /** Block timestamp in milliseconds */
+  readonly timestamp: number;
+}
+
+interface TransferIndex {
+  /** Last block scanned per token, by lowercased token address */
+  readonly cursors: Readonly<Record<string, number>>;
+  readonly transfers: readonly IndexedTransfer[];
+}
+
+type TransferIndexRecord = Record<string, TransferIndex>;
+
+const TRANSFER_INDEX_STORAGE_KEY = "hw-transfer-index";
+/** How far back the first scan of a token reaches */
+const INITIAL_LOOKBACK_BLOCKS = 20_000;
+/** Public RPCs cap the block range of a single `eth_getLogs` */
+const MAX_BLOCK_RANGE = 2_000;
+
+const transferEvent = getAbiItem({ abi: USDT_ABI, name: "Transfer" });
+
+const indexKey = (chainId: number, account: Address): string => `${chainId}:${account.toLowerCase()}`;
+
+async function getTransferIndex(chainId: number, account: Address): Promise<TransferIndex> {
+  const record = await get<TransferIndexRecord>(TRANSFER_INDEX_STORAGE_KEY);
+  return record?.[indexKey(chainId, account)] ?? { cursors: {}, transfers: [] };
+}
+
+async function saveTransferIndex(chainId: number, account: Address, index: TransferIndex): Promise<void> {
+  await update<TransferIndexRecord>(TRANSFER_INDEX_STORAGE_KEY, (record) => ({
+    ...record,
+    [indexKey(chainId, account)]: index,
+  }));
+}
+
+/**
+ * Gets the transfers indexed so far for an account on every chain, most recent first
+ */
+export async function getIndexedTransfers(account: Address): Promise<IndexedTransfer[]> {
+  const record = await get<TransferIndexRecord>(TRANSFER_INDEX_STORAGE_KEY);
+  const suffix = `:${account.toLowerCase()}`;
+  return Object.entries(record ?? {})
+    .filter(([key]) => key.endsWith(suffix))
+    .flatMap(([, index]) => index.transfers)
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+async function getTransferLogs(
+  client: PublicClient,
+  account: Address,
+  tokens: readonly Address[],
+  fromBlock: number,
+  toBlock: number,
+): Promise<Omit<IndexedTransfer, "timestamp">[]> {
+  const range = { address: [...tokens], event: transferEvent, fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock) };
+  const [outgoing, incoming] = await Promise.all([
+    client.getLogs({ ...range, args: { from: account } }),
+    client.getLogs({ ...range, args: { to: account } }),
+  ]);
+
+  const chainId = client.chain!.id;
+  const toTransfer = (log: (typeof outgoing)[number], direction: "in" | "out") => ({
+    id: `${log.transactionHash}:${log.logIndex}`,
+    chainId,
+    account,
+    token: log.address,
+    direction,
+    amount: numberToHex(log.args.value ?? 0n),
+    counterparty: (direction === "in" ? log.args.from : log.args.to)!,
+    transactionHash: log.transactionHash,
+    blockNumber: Number(log.blockNumber),
+  });
+
+  return [...outgoing.map((log) => toTransfer(log, "out")), ...incoming.map((log) => toTransfer(log, "in"))] as Omit<
+    IndexedTransfer,
+    "timestamp"
+  >[];
+}
+
+/**
+ * Scans `Transfer` logs of the given tokens for transfers to or from the account, continuing from each
+ * token's stored cursor block. Progress is saved even when a later range fails, so the next run resumes there.
+ */
+export async function indexTransfers(
+  client: PublicClient,
+  account: Address,
+  tokens: readonly Address[],
+): Promise<IndexedTransfer[]> {
+  const chainId = client.chain!.id;
+  const index = await getTransferIndex(chainId, account);
+  const latestBlock = Number(await client.getBlockNumber());
+  const cursors = { ...index.cursors };
+  const found: Omit<IndexedTransfer, "timestamp">[] = [];
+  let failure: unknown;
+
+  // Tokens sharing a cursor are scanned together; a newly added token starts from the lookback window
+  const tokensByStart = new Map<number, Address[]>();
+  for (const token of tokens) {
+    const cursor = cursors[token.toLowerCase()];
+    const start = cursor === undefined ? Math.max(0, latestBlock - INITIAL_LOOKBACK_BLOCKS) : cursor + 1;
+    tokensByStart.set(start, [...(tokensByStart.get(start) ?? []), token]);
+  }
+
+  for (const [start, group] of tokensByStart) {
+    try {
+      for (let fromBlock = start; fromBlock <= latestBlock; fromBlock += MAX_BLOCK_RANGE) {
+        const toBlock = Math.min(fromBlock + MAX_BLOCK_RANGE - 1, latestBlock);
+        found.push(...(await getTransferLogs(client, account, group, fromBlock, toBlock)));
+        for (const token of group) cursors[token.toLowerCase()] = toBlock;
+      }
+    } catch (error) {
+      failure = error;
+      break;
+    }
+  }
+
+  // A transfer to oneself shows up in both queries and is kept once
+  const seen = new Set(index.transfers.map((transfer) => transfer.id));
+  const added = found.filter((transfer) => {
+    if (seen.has(transfer.id)) return false;
+    seen.add(transfer.id);
+    return true;
+  });
+  const blockNumbers = [...new Set(added.map((transfer) => transfer.blockNumber))];
+  const blocks = await Promise.all(
+    blockNumbers.map((blockNumber) => client.getBlock({ blockNumber: BigInt(blockNumber) })),
+  );
+  const timestamps = new Map(blocks.map((block) => [Number(block.number), Number(block.timestamp) * 1000]));
+
+  const transfers = [
+    ...added.map((transfer) => ({ ...transfer, timestamp: timestamps.get(transfer.blockNumber) ?? Date.now() })),
+    ...index.transfers,
+  ];
+  await saveTransferIndex(chainId, account, { cursors, transfers });
+
+  if (failure) throw failure;
+  return transfers;
+}
+
+/**
+ * Merges indexed transfers into the wallet's own activity. Transfers made by a recorded user operation
+ * are already represented by it and are left out.
+ */
+export function mergeTransfersIntoActivity(
+  activity: readonly ActivityRecord[],
+  transfers: readonly IndexedTransfer[],
+): ActivityRecord[] {
+  const recorded = new Set(
+    activity.flatMap((record) => (record.transactionHash ? [record.transactionHash.toLowerCase()] : [])),
+  );
+
+  const fromLogs = transfers
+    .filter((transfer) => !recorded.has(transfer.transactionHash.toLowerCase()))
+    .map(
+      (transfer): ActivityRecord => ({
+        id: transfer.id,
+        chainId: transfer.chainId,
+        account: transfer.account,
+        method: "eth_getLogs",
+        kind: transfer.direction === "in" ? "receive" : "send",
+        deltas: [
+          {
+            token: transfer.token,
+            direction: transfer.direction,
+            amount: transfer.amount,
+            counterparty: transfer.counterparty,
+          },
+        ],
+        status: "included",
+        transactionHash: transfer.transactionHash,
+        submittedAt: transfer.timestamp,
+        updatedAt: transfer.timestamp,
+      }),
+    );
+
+  return [...activity, ...fromLogs].sort((a, b) => b.submittedAt - a.submittedAt);
+}
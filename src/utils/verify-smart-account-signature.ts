@@ -0,0 +1,74 @@
+import type { Address, Hex, PublicClient, SignableMessage, TypedDataDefinition } from "viem";
+import { hashMessage, hashTypedData, isAddressEqual, isErc6492Signature, recoverAddress } from "viem";
+import { readContract, verifyHash } from "viem/actions";
+
+/** Magic value ERC-1271 `isValidSignature` returns for a valid signature */
+const ERC1271_MAGIC_VALUE = "0x1626ba7e";
+
+const erc1271Abi = [
+  {
+    type: "function",
+    name: "isValidSignature",
+    stateMutability: "view",
+    inputs: [
+      { name: "hash", type: "bytes32" },
+      { name: "signature", type: "bytes" },
+    ],
+    outputs: [{ name: "magicValue", type: "bytes4" }],
+  },
+] as const;
+
+/**
+ * How a signature was checked:
+ * - `eoa`: recovered with ecrecover, the signer has no code
+ * - `erc1271`: the deployed contract's `isValidSignature`
+ * - `erc6492`: the signature carried deployment data, so the account was simulated into existence first
+ */
+export type SignatureVerificationPath = "eoa" | "erc1271" | "erc6492";
+
+export interface SignatureVerificationResult {
+  readonly isValid: boolean;
+  readonly path: SignatureVerificationPath;
+}
+
+export type SignedPayload =
+  | { readonly type: "message"; readonly message: SignableMessage }
+  | { readonly type: "typedData"; readonly typedData: TypedDataDefinition };
+
+/**
+ * Verifies a `personal_sign` or typed data signature from an EOA or smart account,
+ * including counterfactual accounts whose signatures are wrapped in ERC-6492
+ */
+export async function verifySmartAccountSignature(
+  client: PublicClient,
+  { address, signature, payload }: { address: Address; signature: Hex; payload: SignedPayload },
+): Promise<SignatureVerificationResult> {
+  const hash = payload.type === "message" ? hashMessage(payload.message) : hashTypedData(payload.typedData);
+
+  if (isErc6492Signature(signature)) {
+    return { isValid: await verifyHash(client, { address, hash, signature }), path: "erc6492" };
+  }
+
+  const code = await client.getCode({ address });
+  if (code && code !== "0x") {
+    try {
+      const magicValue = await readContract(client, {
+        address,
+        abi: erc1271Abi,
+        functionName: "isValidSignature",
+        args: [hash, signature],
+      });
+      return { isValid: magicValue === ERC1271_MAGIC_VALUE, path: "erc1271" };
+    } catch {
+      // Contracts revert on signatures they reject
+      return { isValid: false, path: "erc1271" };
+    }
+  }
+
+  try {
+    return { isValid: isAddressEqual(await recoverAddress({ hash, signature }), address), path: "eoa" };
+  } catch {
+    // Not a 65-byte ECDSA signature, e.g. a smart account signature for an account with no code
+    return { isValid: false, path: "eoa" };
+  }
+}